@@ -2,27 +2,150 @@
 
 import type React from "react"
 
-import { useState, useMemo } from "react"
+import { useState, useMemo, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Badge } from "@/components/ui/badge"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { Upload, FileText, Download, CheckCircle, Search, Filter, Eye, ChevronUp, ArrowUpDown } from "lucide-react"
-import JSZip from "jszip"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import {
+  Upload,
+  FileText,
+  FolderOpen,
+  X,
+  Download,
+  CheckCircle,
+  Search,
+  Filter,
+  Eye,
+  ChevronUp,
+  ArrowUpDown,
+} from "lucide-react"
+import { Bar, BarChart, XAxis, YAxis } from "recharts"
+import {
+  DEFAULT_PATH_FILTER,
+  IGNORE_FILE_NAME,
+  createPathFilter,
+  isJunkPath,
+  matchesPathRules,
+  parsePathRules,
+  type PathFilter,
+} from "@/lib/archive/ignore"
+import { droppedFiles, inputFiles, localEntries, splitRootFolder, type LocalFile } from "@/lib/archive/folder"
+import {
+  ARCHIVE_EXTENSIONS,
+  archiveBaseName,
+  checkArchive,
+  openArchive,
+  type ArchiveEntry,
+} from "@/lib/archive/reader"
+import {
+  DEFAULT_REPEATED_BLOCK_OPTIONS,
+  removeRepeatedBlocks,
+  type RepeatedBlockMode,
+  type RepeatedBlockOptions,
+} from "@/lib/dedup/paragraphs"
+import { DEFAULT_SIMILARITY_THRESHOLD, findNearDuplicates, type DuplicateGroup } from "@/lib/dedup/similarity"
+import { CODE_THEMES, DEFAULT_CODE_THEME, type CodeThemeName } from "@/lib/highlight/themes"
+import { DEFAULT_IMAGE_CONVERSION_OPTIONS, prepareImage } from "@/lib/images/rasterize"
+import {
+  DEFAULT_MARKDOWN_EXTENSIONS,
+  fileTitle,
+  markdownExtension,
+  parseExtensions,
+  stripMdx,
+} from "@/lib/markdown/files"
+import { parseMarkdown } from "@/lib/markdown/parser"
+import { collapseWhitespace } from "@/lib/markdown/whitespace"
+import {
+  DEFAULT_COVER_PAGE,
+  coverDocumentInfo,
+  formatCoverDate,
+  renderCoverPage,
+  type CoverPage,
+  type DateFormat,
+} from "@/lib/rtf/cover"
+import { RtfDocument } from "@/lib/rtf/document"
+import { readImage, referencedImages, type EmbeddedImage } from "@/lib/rtf/images"
+import {
+  OPTIMIZATION_PASSES,
+  OPTIMIZATION_PRESETS,
+  optimizeRTF,
+  type OptimizationPass,
+  type OptimizationPreset,
+  type OptimizationReport,
+} from "@/lib/rtf/optimize"
+import { DEFAULT_PAGE_SETUP, PAPER_SIZES, renderPageSetup, textWidth, type PageSetup } from "@/lib/rtf/page"
+import { DEFAULT_RENDER_OPTIONS, markdownToRTF } from "@/lib/rtf/render"
+import { DEFAULT_TABLE_OPTIONS, type TableBorders } from "@/lib/rtf/table"
+import { DEFAULT_TOC_OPTIONS, renderTableOfContents, type TocMode } from "@/lib/rtf/toc"
+import { cn } from "@/lib/utils"
 
 interface MarkdownFile {
   name: string
   content: string
   size: number
+  // Starts with the name of its source
   path: string
+  // The archive or folder the file came from
+  source: string
   selected: boolean
 }
 
+// Images that can be embedded into the RTF, directly or after rasterizing
+const reImageFile = /\.(?:png|jpe?g|gif|webp|svg)$/i
+
+// Sanitize filename and ensure .rtf extension
+const sanitizeFilename = (filename: string) => {
+  // Remove invalid characters and trim
+  let sanitized = filename.replace(/[<>:"/\\|?*]/g, "").trim()
+
+  // If empty, use default
+  if (!sanitized) {
+    sanitized = "combined-markdown"
+  }
+
+  // Add .rtf extension if not present
+  if (!sanitized.toLowerCase().endsWith(".rtf")) {
+    sanitized += ".rtf"
+  }
+
+  return sanitized
+}
+
+// Choice in the duplicate review that keeps every file of a group
+const KEEP_ALL_DUPLICATES = "*"
+
+const OPTIMIZATION_CHART_CONFIG = {
+  saved: { label: "Bytes saved", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig
+
+// Name for a new source that none of the loaded ones has, like "docs (2)"
+function uniqueSourceName(name: string, taken: string[]): string {
+  const base = name.replace(/\//g, "-").trim() || "files"
+  let unique = base
+  for (let i = 2; taken.includes(unique); i++) {
+    unique = `${base} (${i})`
+  }
+  return unique
+}
+
 type SortOption = "name" | "size" | "path"
 type SortDirection = "asc" | "desc"
 
@@ -32,8 +155,22 @@ export default function MarkdownToRTFConverter() {
   const [isExtracting, setIsExtracting] = useState(false)
   const [progress, setProgress] = useState(0)
   const [result, setResult] = useState<string | null>(null)
+  const [convertedCount, setConvertedCount] = useState(0)
   const [error, setError] = useState<string | null>(null)
   const [markdownFiles, setMarkdownFiles] = useState<MarkdownFile[]>([])
+  // Names of the archives and folders added so far, in the order they were added
+  const [sources, setSources] = useState<string[]>([])
+  // Extensions of the files read as Markdown, as typed
+  const [extensionList, setExtensionList] = useState(DEFAULT_MARKDOWN_EXTENSIONS.join(", "))
+  const [pathFilter, setPathFilter] = useState<PathFilter>(DEFAULT_PATH_FILTER)
+  // An emptied list means the defaults rather than no files at all
+  const markdownExtensions = useMemo(() => {
+    const extensions = parseExtensions(extensionList)
+    return extensions.length > 0 ? extensions : DEFAULT_MARKDOWN_EXTENSIONS
+  }, [extensionList])
+  // Image bytes by archive path, for markdown files that reference them
+  const [images, setImages] = useState<Map<string, Uint8Array>>(new Map())
+  const [warnings, setWarnings] = useState<string[]>([])
   const [searchTerm, setSearchTerm] = useState("")
   const [sortBy, setSortBy] = useState<SortOption>("name")
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc")
@@ -41,61 +178,113 @@ export default function MarkdownToRTFConverter() {
   const [showPreview, setShowPreview] = useState(false)
   const [customFilename, setCustomFilename] = useState("combined-markdown")
   const [enableOptimization, setEnableOptimization] = useState(true)
-  const [optimizationStats, setOptimizationStats] = useState<{
-    originalSize: number
-    optimizedSize: number
-    reduction: number
-  } | null>(null)
-
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = event.target.files?.[0]
-    if (selectedFile && selectedFile.type === "application/zip") {
+  const [tableBorders, setTableBorders] = useState<TableBorders>(DEFAULT_TABLE_OPTIONS.borders)
+  const [tableCellPadding, setTableCellPadding] = useState(DEFAULT_TABLE_OPTIONS.cellPadding / 20)
+  const [codeTheme, setCodeTheme] = useState<CodeThemeName | "none">(DEFAULT_CODE_THEME)
+  const [appendLinkUrls, setAppendLinkUrls] = useState(DEFAULT_RENDER_OPTIONS.appendLinkUrls)
+  const [missingLinkNote, setMissingLinkNote] = useState(DEFAULT_RENDER_OPTIONS.missingLinkNote)
+  const [cover, setCover] = useState<CoverPage>(DEFAULT_COVER_PAGE)
+  const [coverLogo, setCoverLogo] = useState<File | null>(null)
+  const [pageSetup, setPageSetup] = useState<PageSetup>(DEFAULT_PAGE_SETUP)
+  const [tocMode, setTocMode] = useState<TocMode>(DEFAULT_TOC_OPTIONS.mode)
+  const [tocDepth, setTocDepth] = useState(DEFAULT_TOC_OPTIONS.depth)
+  const [imageDpi, setImageDpi] = useState(DEFAULT_IMAGE_CONVERSION_OPTIONS.dpi)
+  const [imageMaxDimension, setImageMaxDimension] = useState(DEFAULT_IMAGE_CONVERSION_OPTIONS.maxDimension)
+  const [imageMaxSizeKB, setImageMaxSizeKB] = useState(DEFAULT_IMAGE_CONVERSION_OPTIONS.maxBytes / 1024)
+  const [duplicateThreshold, setDuplicateThreshold] = useState(DEFAULT_SIMILARITY_THRESHOLD * 100)
+  // Near-duplicate groups awaiting review, and the path of the file kept from each
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup<MarkdownFile>[]>([])
+  const [duplicateChoices, setDuplicateChoices] = useState<string[]>([])
+  const [repeatedBlocks, setRepeatedBlocks] = useState<RepeatedBlockOptions>(DEFAULT_REPEATED_BLOCK_OPTIONS)
+  // Blocks removed from each file as repeats of earlier ones in the last conversion
+  const [repeatedBlocksRemoved, setRepeatedBlocksRemoved] = useState<{ path: string; count: number }[]>([])
+  const [optimizationPasses, setOptimizationPasses] = useState<OptimizationPass[]>(OPTIMIZATION_PRESETS.safe)
+  const [optimizationStats, setOptimizationStats] = useState<OptimizationReport | null>(null)
+  // Whether files are being dragged over the upload card
+  const [isDragging, setIsDragging] = useState(false)
+  const archiveInput = useRef<HTMLInputElement>(null)
+  const folderInput = useRef<HTMLInputElement>(null)
+
+  // Browsers report archives under several types or none at all, so the file is recognized by its
+  // first bytes instead
+  const selectArchive = async (selectedFile: File) => {
+    try {
+      await checkArchive(selectedFile)
       setFile(selectedFile)
       setError(null)
       setResult(null)
-      setMarkdownFiles([])
-    } else {
-      setError("Please select a valid ZIP file")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Please select a valid archive")
       setFile(null)
     }
   }
 
-  const extractFiles = async () => {
-    if (!file) return
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = event.target.files?.[0]
+    // Cleared so picking the same file again after an error fires another change
+    event.target.value = ""
+    if (selectedFile) {
+      await selectArchive(selectedFile)
+    }
+  }
 
+  // Adds the files of an archive or a set of local files to the list as a new source, with their paths
+  // under the source's name
+  const extractEntries = async (open: () => Promise<ArchiveEntry[]>, description: string, name: string) => {
+    const source = uniqueSourceName(name, sources)
     setIsExtracting(true)
     setError(null)
 
     try {
-      const zip = new JSZip()
-      const zipContent = await zip.loadAsync(file)
+      // Junk is always skipped, and so is whatever the source's own ignore file lists
+      const allEntries = await open()
+      const ignoreFile = allEntries.find((entry) => entry.path === IGNORE_FILE_NAME)
+      const ignoreRules = ignoreFile ? parsePathRules(await ignoreFile.text()) : []
+      const entries = allEntries.filter(
+        (entry) => !isJunkPath(entry.path) && !matchesPathRules(entry.path, ignoreRules),
+      )
 
       const mdFiles: MarkdownFile[] = []
-      const fileNames = Object.keys(zipContent.files).filter(
-        (name) => name.endsWith(".md") && !zipContent.files[name].dir,
-      )
+      const markdownEntries = entries.flatMap((entry) => {
+        const extension = markdownExtension(entry.path, markdownExtensions)
+        return extension ? [{ entry, extension }] : []
+      })
 
-      if (fileNames.length === 0) {
-        throw new Error("No Markdown files found in the ZIP archive")
+      if (markdownEntries.length === 0) {
+        throw new Error(`No Markdown files (${markdownExtensions.join(", ")}) found in ${description}`)
       }
 
-      for (let i = 0; i < fileNames.length; i++) {
-        const fileName = fileNames[i]
-        const fileContent = await zipContent.files[fileName].async("text")
+      for (let i = 0; i < markdownEntries.length; i++) {
+        const { entry, extension } = markdownEntries[i]
+        const fileName = `${source}/${entry.path}`
+        const text = await entry.text()
+        // MDX is read as the Markdown left once its imports, exports and component tags are removed
+        const fileContent = extension === ".mdx" ? stripMdx(text) : text
         const fileSize = new Blob([fileContent]).size
 
         mdFiles.push({
-          name: fileName.replace(/^.*\//, "").replace(".md", ""),
+          name: fileTitle(entry.path, extension),
           content: fileContent,
           size: fileSize,
           path: fileName,
+          source,
           selected: true, // Default to selected
         })
 
-        setProgress(((i + 1) / fileNames.length) * 100)
+        setProgress(((i + 1) / markdownEntries.length) * 100)
       }
 
-      setMarkdownFiles(mdFiles)
+      const archiveImages = new Map<string, Uint8Array>()
+      for (const entry of entries) {
+        if (reImageFile.test(entry.path)) {
+          archiveImages.set(`${source}/${entry.path}`, await entry.bytes())
+        }
+      }
+
+      setMarkdownFiles((current) => [...current, ...mdFiles])
+      setImages((current) => new Map([...current, ...archiveImages]))
+      setSources((current) => [...current, source])
+      setFile(null)
       setProgress(0)
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred while extracting files")
@@ -104,8 +293,78 @@ export default function MarkdownToRTFConverter() {
     }
   }
 
+  // An archive made by compressing a folder holds everything under that folder (and the __MACOSX folder
+  // macOS adds beside it); the folder is taken off the paths, so the ignore file and the include and
+  // exclude patterns see the same paths as for the folder itself
+  const extractFiles = async () => {
+    if (file) {
+      const open = async () => {
+        const entries = (await openArchive(file)).filter((entry) => !entry.path.startsWith("__MACOSX/"))
+        return splitRootFolder(entries).files
+      }
+      await extractEntries(open, "the archive", archiveBaseName(file.name))
+    }
+  }
+
+  // Folders and loose Markdown files are read straight away, as there is nothing to check first. A
+  // folder is named after itself; loose files share a generic name.
+  const extractLocalFiles = async (files: LocalFile[], description: string) => {
+    const { root, files: relative } = splitRootFolder(files)
+    await extractEntries(async () => localEntries(relative), description, root ?? "files")
+  }
+
+  const removeSource = (name: string) => {
+    setMarkdownFiles((current) => current.filter((file) => file.source !== name))
+    setImages((current) => new Map(Array.from(current).filter(([path]) => !path.startsWith(`${name}/`))))
+    setSources((current) => current.filter((other) => other !== name))
+  }
+
+  const handleFolderChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files ? inputFiles(event.target.files) : []
+    event.target.value = ""
+    if (files.length > 0) {
+      await extractLocalFiles(files, "the folder")
+    }
+  }
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    event.dataTransfer.dropEffect = isExtracting ? "none" : "copy"
+    setIsDragging(true)
+  }
+
+  // Leaving for one of the drop zone's own children isn't leaving the drop zone
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDragging(false)
+    }
+  }
+
+  // A single dropped file that isn't Markdown is taken as an archive; folders and Markdown files are
+  // read as they are
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDragging(false)
+    if (isExtracting) {
+      return
+    }
+    const files = await droppedFiles(event.dataTransfer)
+    const [first] = files
+    if (files.length === 1 && first.path === first.file.name && !markdownExtension(first.path, markdownExtensions)) {
+      await selectArchive(first.file)
+    } else if (files.length > 0) {
+      await extractLocalFiles(files, "the dropped files")
+    }
+  }
+
+  // Files the include and exclude patterns leave in, matched by their path within their source
+  const includedFiles = useMemo(() => {
+    const isIncluded = createPathFilter(pathFilter)
+    return markdownFiles.filter((file) => isIncluded(file.path.slice(file.source.length + 1)))
+  }, [markdownFiles, pathFilter])
+
   const filteredAndSortedFiles = useMemo(() => {
-    const filtered = markdownFiles.filter(
+    const filtered = includedFiles.filter(
       (file) =>
         file.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         file.path.toLowerCase().includes(searchTerm.toLowerCase()),
@@ -128,9 +387,9 @@ export default function MarkdownToRTFConverter() {
     })
 
     return filtered
-  }, [markdownFiles, searchTerm, sortBy, sortDirection])
+  }, [includedFiles, searchTerm, sortBy, sortDirection])
 
-  const selectedFiles = markdownFiles.filter((file) => file.selected)
+  const selectedFiles = includedFiles.filter((file) => file.selected)
 
   const toggleFileSelection = (index: number) => {
     const updatedFiles = [...markdownFiles]
@@ -166,196 +425,140 @@ export default function MarkdownToRTFConverter() {
     return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + " " + sizes[i]
   }
 
-  const optimizeRTFContent = (rtfContent: string): { optimized: string; stats: any } => {
-    const originalSize = new Blob([rtfContent]).size
-
-    let optimized = rtfContent
-
-    // 1. Remove excessive whitespace and empty paragraphs
-    optimized = optimized.replace(/\\par\\par\\par+/g, "\\par\\par") // Max 2 consecutive paragraph breaks
-    optimized = optimized.replace(/\s+/g, " ") // Normalize whitespace
-    optimized = optimized.replace(/\\par\s+/g, "\\par") // Remove spaces after paragraph breaks
-
-    // 2. Optimize RTF control words - use shorter equivalents
-    optimized = optimized.replace(/\\paragraph/g, "\\par")
-    optimized = optimized.replace(/\\line/g, "\\par")
-
-    // 3. Remove redundant formatting resets
-    optimized = optimized.replace(/\\plain\\plain/g, "\\plain")
-    optimized = optimized.replace(/\\b\\b0\\b/g, "\\b")
-
-    // 4. Optimize font switching - avoid unnecessary font changes
-    optimized = optimized.replace(/\\f0\\f0/g, "\\f0")
-    optimized = optimized.replace(/\\f1\\f1/g, "\\f1")
-
-    // 5. Compress repeated paragraph formatting
-    optimized = optimized.replace(/(\\par){3,}/g, "\\par\\par")
-
-    // 6. Remove trailing spaces before RTF control words
-    optimized = optimized.replace(/\s+\\/g, "\\")
-
-    // 7. Optimize bullet points - use more efficient RTF
-    optimized = optimized.replace(/\\bullet\s+/g, "\\bullet ")
-
-    // 8. Remove empty formatting groups
-    optimized = optimized.replace(/\{\}/g, "")
-    optimized = optimized.replace(/\{\\[^}]*\}/g, (match) => {
-      // Keep only non-empty formatting groups
-      const content = match.slice(1, -1).replace(/^\\[^\\s]+\s*/, "")
-      return content.trim() ? match : ""
-    })
-
-    // 9. Optimize font size declarations - remove redundant ones
-    optimized = optimized.replace(/(\\fs\d+)(\\fs\d+)/g, "$2")
-
-    // 10. Final cleanup
-    optimized = optimized.replace(/\s+}/g, "}") // Remove spaces before closing braces
-    optimized = optimized.replace(/{\s+/g, "{") // Remove spaces after opening braces
-
-    const optimizedSize = new Blob([optimized]).size
-    const reduction = ((originalSize - optimizedSize) / originalSize) * 100
-
-    return {
-      optimized,
-      stats: {
-        originalSize,
-        optimizedSize,
-        reduction: Math.round(reduction * 100) / 100,
-      },
-    }
-  }
-
-  const deduplicateContent = (files: MarkdownFile[]): MarkdownFile[] => {
-    // Simple deduplication - remove files with identical content
-    const seen = new Set<string>()
-    return files.filter((file) => {
-      const contentHash = file.content.trim()
-      if (seen.has(contentHash)) {
-        return false
-      }
-      seen.add(contentHash)
-      return true
-    })
-  }
-
-  const optimizeMarkdownContent = (content: string): string => {
-    // Remove excessive empty lines (more than 2 consecutive)
-    content = content.replace(/\n\n\n+/g, "\n\n")
+  const formatReduction = ({ originalSize, optimizedSize }: OptimizationReport) =>
+    originalSize > 0 ? Math.round(((originalSize - optimizedSize) / originalSize) * 10000) / 100 : 0
 
-    // Remove trailing whitespace from lines
-    content = content.replace(/[ \t]+$/gm, "")
+  // With optimization on, near-duplicate files are looked for first; when there are any, conversion
+  // waits for the user to pick the copies to keep in the review dialog
+  const processSelectedFiles = () => {
+    const filesToProcess = includedFiles.filter((file) => file.selected)
 
-    // Remove excessive spaces in text (but preserve code blocks)
-    const lines = content.split("\n")
-    const optimizedLines = lines.map((line) => {
-      // Don't optimize code blocks
-      if (line.trim().startsWith("```") || line.trim().startsWith("    ")) {
-        return line
-      }
-      // Normalize multiple spaces to single space
-      return line.replace(/\s+/g, " ")
-    })
-
-    return optimizedLines.join("\n").trim()
-  }
-
-  const markdownToRTF = (markdown: string, title = ""): string => {
-    let rtf = ""
-
-    if (title) {
-      rtf += `{\\b\\fs28 ${title}}\\par\\par`
+    if (filesToProcess.length === 0) {
+      setError("Please select at least one file to convert")
+      return
     }
 
-    const lines = markdown.split("\n")
-
-    for (let line of lines) {
-      line = line.trim()
-
-      if (line.startsWith("# ")) {
-        rtf += `{\\b\\fs24 ${line.substring(2)}}\\par\\par`
-      } else if (line.startsWith("## ")) {
-        rtf += `{\\b\\fs20 ${line.substring(3)}}\\par\\par`
-      } else if (line.startsWith("### ")) {
-        rtf += `{\\b\\fs18 ${line.substring(4)}}\\par\\par`
-      } else if (line.includes("**")) {
-        line = line.replace(/\*\*(.*?)\*\*/g, "{\\b $1}")
-        rtf += `${line}\\par`
-      } else if (line.includes("*")) {
-        line = line.replace(/\*(.*?)\*/g, "{\\i $1}")
-        rtf += `${line}\\par`
-      } else if (line.startsWith("```")) {
-        rtf += `{\\f1\\fs16 ${line}}\\par`
-      } else if (line.startsWith("- ") || line.startsWith("* ")) {
-        rtf += `\\bullet ${line.substring(2)}\\par`
-      } else if (/^\d+\.\s/.test(line)) {
-        rtf += `${line}\\par`
-      } else if (line === "") {
-        rtf += "\\par"
-      } else {
-        rtf += `${line}\\par`
+    if (enableOptimization) {
+      const groups = findNearDuplicates(filesToProcess, duplicateThreshold / 100)
+      if (groups.length > 0) {
+        setDuplicateGroups(groups)
+        setDuplicateChoices(groups.map((group) => group.files[0].path))
+        return
       }
     }
-
-    return rtf + "\\par\\par"
+    convertFiles(filesToProcess)
   }
 
-  const processSelectedFiles = async () => {
-    let filesToProcess = markdownFiles.filter((file) => file.selected)
-
-    if (filesToProcess.length === 0) {
-      setError("Please select at least one file to convert")
-      return
-    }
+  const confirmDuplicateReview = () => {
+    const leftOut = new Set(
+      duplicateGroups.flatMap((group, i) =>
+        duplicateChoices[i] === KEEP_ALL_DUPLICATES
+          ? []
+          : group.files.filter((file) => file.path !== duplicateChoices[i]).map((file) => file.path),
+      ),
+    )
+    setDuplicateGroups([])
+    convertFiles(includedFiles.filter((file) => file.selected && !leftOut.has(file.path)))
+  }
 
+  const convertFiles = async (filesToProcess: MarkdownFile[]) => {
     setIsProcessing(true)
     setProgress(0)
     setError(null)
 
     try {
-      // Apply content optimization if enabled
-      if (enableOptimization) {
-        // Remove duplicate files
-        const originalCount = filesToProcess.length
-        filesToProcess = deduplicateContent(filesToProcess)
+      const rtfDocument = new RtfDocument(coverDocumentInfo(cover, filesToProcess.length))
+
+      const renderOptions = {
+        ...DEFAULT_RENDER_OPTIONS,
+        textWidth: textWidth(pageSetup),
+        table: { ...DEFAULT_TABLE_OPTIONS, borders: tableBorders, cellPadding: Math.round(tableCellPadding * 20) },
+        codeTheme: codeTheme === "none" ? null : codeTheme,
+        appendLinkUrls,
+        missingLinkNote: missingLinkNote.trim(),
+        markdownExtensions,
+      }
 
-        if (filesToProcess.length < originalCount) {
-          console.log(`Removed ${originalCount - filesToProcess.length} duplicate files`)
-        }
+      // With optimization on, runs of spaces in prose are collapsed; code keeps its whitespace
+      const parsed = filesToProcess.map(({ name, path, source, content }) => {
+        const tree = parseMarkdown(content)
+        return { name, path, source, tree: enableOptimization ? collapseWhitespace(tree) : tree }
+      })
+      const { sources, removed } = removeRepeatedBlocks(
+        parsed,
+        enableOptimization ? repeatedBlocks : DEFAULT_REPEATED_BLOCK_OPTIONS,
+      )
+      setRepeatedBlocksRemoved(removed)
 
-        // Optimize markdown content
-        filesToProcess = filesToProcess.map((file) => ({
-          ...file,
-          content: optimizeMarkdownContent(file.content),
-        }))
+      // Every file gets its bookmarks before any is rendered, so links can jump forward
+      for (const source of sources) {
+        rtfDocument.bookmarks.addFile(source.path, source.tree)
       }
 
-      let rtfContent = "{\\rtf1\\ansi\\deff0 {\\fonttbl {\\f0 Times New Roman;}{\\f1 Courier New;}}\\f0\\fs24"
+      // Only images the selected files use are converted; rasterizing is the slow part
+      const imageOptions = { dpi: imageDpi, maxDimension: imageMaxDimension, maxBytes: imageMaxSizeKB * 1024 }
+      const imagePaths = new Set(sources.flatMap((source) => referencedImages(source.path, source.tree, source.source)))
+      for (const path of imagePaths) {
+        const data = images.get(path)
+        if (!data) {
+          continue
+        }
+        try {
+          const prepared = await prepareImage(path, data, imageOptions)
+          rtfDocument.images.add(path, prepared.data, prepared.dpi)
+        } catch (err) {
+          rtfDocument.images.fail(path, err instanceof Error ? err.message : "could not be converted")
+        }
+      }
+
+      let logo: EmbeddedImage | null = null
+      if (coverLogo) {
+        try {
+          const prepared = await prepareImage(coverLogo.name, new Uint8Array(await coverLogo.arrayBuffer()), imageOptions)
+          logo = readImage(prepared.data, prepared.dpi)
+        } catch (err) {
+          rtfDocument.warnings.add(`Cover logo ${err instanceof Error ? err.message : "could not be converted"}`)
+        }
+      }
+      let body = renderCoverPage(cover, filesToProcess.length, logo)
 
-      rtfContent += "{\\b\\fs32 Combined Markdown Document}\\par\\par"
-      rtfContent += `{\\i Generated from ${filesToProcess.length} selected markdown files}\\par\\par\\par`
+      const toc = renderTableOfContents(sources, { mode: tocMode, depth: tocDepth }, renderOptions.textWidth, rtfDocument)
+      if (toc) {
+        body += toc + "\\page"
+      }
 
-      for (let i = 0; i < filesToProcess.length; i++) {
-        const { name, content } = filesToProcess[i]
-        rtfContent += markdownToRTF(content, name)
-        if (i < filesToProcess.length - 1) {
-          rtfContent += "\\page"
+      for (let i = 0; i < sources.length; i++) {
+        body += markdownToRTF(sources[i], rtfDocument, renderOptions)
+        if (i < sources.length - 1) {
+          body += "\\page"
         }
-        setProgress(((i + 1) / filesToProcess.length) * 90) // Leave 10% for optimization
+        setProgress(((i + 1) / sources.length) * 90) // Leave 10% for optimization
       }
 
-      rtfContent += "}"
+      // The header is written last because it holds the tables the files registered entries in
+      // The cover date, or today's when none is set, fills in {date}
+      const pageVariables = {
+        title: cover.title.trim(),
+        filename: sanitizeFilename(customFilename),
+        date:
+          formatCoverDate(cover.date, cover.dateFormat) ||
+          new Date().toLocaleDateString(undefined, { dateStyle: "long" }),
+      }
+      let rtfContent = rtfDocument.header() + renderPageSetup(pageSetup, pageVariables) + body + "}"
 
       // Apply RTF optimization if enabled
       if (enableOptimization) {
-        const { optimized, stats } = optimizeRTFContent(rtfContent)
+        const { optimized, report } = optimizeRTF(rtfContent, optimizationPasses)
         rtfContent = optimized
-        setOptimizationStats(stats)
+        setOptimizationStats(report)
         setProgress(100)
       } else {
         setOptimizationStats(null)
         setProgress(100)
       }
 
+      setWarnings(Array.from(rtfDocument.warnings))
+      setConvertedCount(filesToProcess.length)
       setResult(rtfContent)
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred while processing the files")
@@ -367,24 +570,6 @@ export default function MarkdownToRTFConverter() {
   const downloadRTF = () => {
     if (!result) return
 
-    // Sanitize filename and ensure .rtf extension
-    const sanitizeFilename = (filename: string) => {
-      // Remove invalid characters and trim
-      let sanitized = filename.replace(/[<>:"/\\|?*]/g, "").trim()
-
-      // If empty, use default
-      if (!sanitized) {
-        sanitized = "combined-markdown"
-      }
-
-      // Add .rtf extension if not present
-      if (!sanitized.toLowerCase().endsWith(".rtf")) {
-        sanitized += ".rtf"
-      }
-
-      return sanitized
-    }
-
     const filename = sanitizeFilename(customFilename)
 
     const blob = new Blob([result], { type: "application/rtf" })
@@ -398,9 +583,32 @@ export default function MarkdownToRTFConverter() {
     URL.revokeObjectURL(url)
   }
 
+  const updateCover = (changes: Partial<CoverPage>) => setCover((current) => ({ ...current, ...changes }))
+
+  const updatePageSetup = (changes: Partial<PageSetup>) => setPageSetup((current) => ({ ...current, ...changes }))
+
+  // Page dimensions are edited in inches and stored in twips
+  const inches = (twips: number) => Math.round((twips / 1440) * 100) / 100
+  const twips = (value: string) => Math.max(0, Math.round(Number.parseFloat(value || "0") * 1440))
+
+  // The preset the selected passes match, if any
+  const optimizationPreset =
+    (Object.keys(OPTIMIZATION_PRESETS) as OptimizationPreset[]).find((preset) => {
+      const passes = OPTIMIZATION_PRESETS[preset]
+      return passes.length === optimizationPasses.length && passes.every((pass) => optimizationPasses.includes(pass))
+    }) ?? "custom"
+
+  const toggleOptimizationPass = (pass: OptimizationPass, enabled: boolean) =>
+    setOptimizationPasses((current) => (enabled ? [...current, pass] : current.filter((other) => other !== pass)))
+
   const resetApp = () => {
     setFile(null)
     setMarkdownFiles([])
+    setSources([])
+    setExtensionList(DEFAULT_MARKDOWN_EXTENSIONS.join(", "))
+    setPathFilter(DEFAULT_PATH_FILTER)
+    setImages(new Map())
+    setWarnings([])
     setResult(null)
     setError(null)
     setSearchTerm("")
@@ -408,7 +616,25 @@ export default function MarkdownToRTFConverter() {
     setShowPreview(false)
     setCustomFilename("combined-markdown")
     setEnableOptimization(true)
+    setTableBorders(DEFAULT_TABLE_OPTIONS.borders)
+    setTableCellPadding(DEFAULT_TABLE_OPTIONS.cellPadding / 20)
+    setCodeTheme(DEFAULT_CODE_THEME)
+    setAppendLinkUrls(DEFAULT_RENDER_OPTIONS.appendLinkUrls)
+    setMissingLinkNote(DEFAULT_RENDER_OPTIONS.missingLinkNote)
+    setCover(DEFAULT_COVER_PAGE)
+    setCoverLogo(null)
+    setPageSetup(DEFAULT_PAGE_SETUP)
+    setTocMode(DEFAULT_TOC_OPTIONS.mode)
+    setTocDepth(DEFAULT_TOC_OPTIONS.depth)
+    setImageDpi(DEFAULT_IMAGE_CONVERSION_OPTIONS.dpi)
+    setImageMaxDimension(DEFAULT_IMAGE_CONVERSION_OPTIONS.maxDimension)
+    setImageMaxSizeKB(DEFAULT_IMAGE_CONVERSION_OPTIONS.maxBytes / 1024)
+    setOptimizationPasses(OPTIMIZATION_PRESETS.safe)
     setOptimizationStats(null)
+    setDuplicateThreshold(DEFAULT_SIMILARITY_THRESHOLD * 100)
+    setDuplicateGroups([])
+    setRepeatedBlocks(DEFAULT_REPEATED_BLOCK_OPTIONS)
+    setRepeatedBlocksRemoved([])
   }
 
   return (
@@ -417,26 +643,109 @@ export default function MarkdownToRTFConverter() {
         <div className="text-center space-y-2">
           <h1 className="text-4xl font-bold text-gray-900">Markdown to RTF Converter</h1>
           <p className="text-lg text-gray-600">
-            Upload a ZIP file with Markdown files and convert selected ones to a single RTF document
+            Upload a folder or an archive of Markdown files and convert selected ones to a single RTF document
           </p>
         </div>
 
         {/* Upload Section */}
-        {!markdownFiles.length && (
+        {!result && (
           <Card className="w-full">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Upload className="w-5 h-5" />
-                Upload ZIP File
+                {sources.length > 0 ? "Add More Files" : "Upload Files"}
               </CardTitle>
-              <CardDescription>Select a ZIP file containing one or more Markdown (.md) files</CardDescription>
+              <CardDescription>
+                Select a ZIP or tar (.tar, .tar.gz, .tgz) archive, a folder, or Markdown files to convert. Add
+                several to combine them; each one&apos;s files are listed under its name.
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+                className={cn(
+                  "flex flex-col items-center gap-3 rounded-lg border-2 border-dashed p-8 text-center transition-colors",
+                  isDragging ? "border-blue-500 bg-blue-50" : "border-gray-300 hover:border-gray-400 hover:bg-gray-50",
+                  isExtracting && "pointer-events-none opacity-50",
+                )}
+              >
+                <Upload className={`w-8 h-8 ${isDragging ? "text-blue-500" : "text-gray-400"}`} />
+                <p className="text-sm text-gray-600">
+                  {isDragging ? "Drop to add the files" : "Drag an archive, a folder or Markdown files here"}
+                </p>
+                <div className="flex flex-wrap justify-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => archiveInput.current?.click()}>
+                    <FileText className="w-4 h-4 mr-2" />
+                    Choose Archive
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => folderInput.current?.click()}>
+                    <FolderOpen className="w-4 h-4 mr-2" />
+                    Choose Folder
+                  </Button>
+                </div>
+                <Input
+                  ref={archiveInput}
+                  type="file"
+                  accept={ARCHIVE_EXTENSIONS.join(",")}
+                  onChange={handleFileChange}
+                  disabled={isExtracting}
+                  className="hidden"
+                />
+                <Input
+                  ref={folderInput}
+                  type="file"
+                  onChange={handleFolderChange}
+                  disabled={isExtracting}
+                  className="hidden"
+                  // Not in React's types, but supported by all current browsers
+                  {...{ webkitdirectory: "" }}
+                />
+              </div>
+
               <div className="space-y-2">
-                <Label htmlFor="zip-file">ZIP File</Label>
-                <Input id="zip-file" type="file" accept=".zip" onChange={handleFileChange} disabled={isExtracting} />
+                <Label htmlFor="markdown-extensions">Markdown file extensions</Label>
+                <Input
+                  id="markdown-extensions"
+                  value={extensionList}
+                  onChange={(e) => setExtensionList(e.target.value)}
+                  placeholder={DEFAULT_MARKDOWN_EXTENSIONS.join(", ")}
+                  disabled={isExtracting}
+                />
+                <p className="text-xs text-gray-500">
+                  Files with these extensions are read as Markdown, whatever their case. MDX files have their imports,
+                  exports and component tags removed.
+                </p>
               </div>
 
+              {sources.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Sources</Label>
+                  {sources.map((name) => (
+                    <div key={name} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+                      <span className="flex items-center gap-2 text-sm truncate">
+                        <FolderOpen className="w-4 h-4 text-gray-500 shrink-0" />
+                        {name}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">
+                          {markdownFiles.filter((file) => file.source === name).length} files
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeSource(name)}
+                          aria-label={`Remove ${name}`}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {file && (
                 <div className="flex items-center gap-2 text-sm text-gray-600">
                   <FileText className="w-4 h-4" />
@@ -482,7 +791,7 @@ export default function MarkdownToRTFConverter() {
                         Select Files to Convert
                       </CardTitle>
                       <CardDescription>
-                        {selectedFiles.length} of {markdownFiles.length} files selected
+                        {selectedFiles.length} of {includedFiles.length} files selected
                       </CardDescription>
                     </div>
                     <div className="flex gap-2">
@@ -529,6 +838,39 @@ export default function MarkdownToRTFConverter() {
                     </div>
                   </div>
 
+                  {/* Path Patterns */}
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="include-patterns">Include patterns</Label>
+                        <Textarea
+                          id="include-patterns"
+                          rows={3}
+                          placeholder={"docs/**\nREADME.md"}
+                          value={pathFilter.include}
+                          onChange={(e) => setPathFilter({ ...pathFilter, include: e.target.value })}
+                          className="font-mono text-xs"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="exclude-patterns">Exclude patterns</Label>
+                        <Textarea
+                          id="exclude-patterns"
+                          rows={3}
+                          placeholder={"drafts/\n*.draft.md\n!intro.draft.md"}
+                          value={pathFilter.exclude}
+                          onChange={(e) => setPathFilter({ ...pathFilter, exclude: e.target.value })}
+                          className="font-mono text-xs"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {includedFiles.length} of {markdownFiles.length} files match. Patterns work like .gitignore, one
+                      per line, against paths within each source. __MACOSX, dotfiles and node_modules are always
+                      skipped, as is anything listed in a {IGNORE_FILE_NAME} file at a source&apos;s root.
+                    </p>
+                  </div>
+
                   {/* Filename Input */}
                   <div className="space-y-2">
                     <Label htmlFor="filename">Output Filename</Label>
@@ -562,10 +904,559 @@ export default function MarkdownToRTFConverter() {
                       </Label>
                     </div>
                     <div className="text-xs text-blue-700 space-y-1">
-                      <p>• Removes duplicate content and excessive whitespace</p>
-                      <p>• Optimizes RTF formatting codes for smaller file size</p>
+                      <p>• Finds near-duplicate files and lets you pick which copy to keep</p>
+                      <p>• Collapses extra spaces in prose, leaving code as written</p>
+                      <p>• Drops redundant RTF formatting and empty groups for smaller file size</p>
                       <p>• Preserves all valuable content and formatting</p>
                     </div>
+                    {enableOptimization && (
+                      <div className="space-y-3 pt-2">
+                        <div className="flex items-center gap-3">
+                          <Label htmlFor="duplicate-threshold" className="text-xs">
+                            Near-duplicate similarity (%)
+                          </Label>
+                          <Input
+                            id="duplicate-threshold"
+                            type="number"
+                            min="50"
+                            max="100"
+                            className="w-24"
+                            value={duplicateThreshold}
+                            onChange={(e) =>
+                              setDuplicateThreshold(Math.min(100, Math.max(50, Number(e.target.value) || 50)))
+                            }
+                          />
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <Label htmlFor="optimization-preset" className="text-xs">
+                            RTF optimization
+                          </Label>
+                          <Select
+                            value={optimizationPreset}
+                            onValueChange={(value) =>
+                              setOptimizationPasses(OPTIMIZATION_PRESETS[value as OptimizationPreset] ?? optimizationPasses)
+                            }
+                          >
+                            <SelectTrigger id="optimization-preset" className="w-40">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">None</SelectItem>
+                              <SelectItem value="safe">Safe</SelectItem>
+                              <SelectItem value="aggressive">Aggressive</SelectItem>
+                              <SelectItem value="custom" disabled>
+                                Custom
+                              </SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          {(Object.keys(OPTIMIZATION_PASSES) as OptimizationPass[]).map((pass) => (
+                            <div key={pass} className="flex items-start space-x-2">
+                              <Checkbox
+                                id={`optimization-${pass}`}
+                                checked={optimizationPasses.includes(pass)}
+                                onCheckedChange={(checked) => toggleOptimizationPass(pass, checked === true)}
+                              />
+                              <div>
+                                <Label htmlFor={`optimization-${pass}`} className="text-xs font-medium">
+                                  {OPTIMIZATION_PASSES[pass].label}
+                                </Label>
+                                <p className="text-xs text-blue-700">{OPTIMIZATION_PASSES[pass].description}</p>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          Safe passes only touch the text; aggressive ones also trim the font table and styles
+                        </p>
+                        <div className="space-y-2">
+                          <Label htmlFor="repeated-blocks" className="text-xs">
+                            Paragraphs repeated across files
+                          </Label>
+                          <div className="flex gap-2">
+                            <Select
+                              value={repeatedBlocks.mode}
+                              onValueChange={(value) =>
+                                setRepeatedBlocks({ ...repeatedBlocks, mode: value as RepeatedBlockMode })
+                              }
+                            >
+                              <SelectTrigger id="repeated-blocks" className="w-48">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="off">Keep every copy</SelectItem>
+                                <SelectItem value="remove">Remove later copies</SelectItem>
+                                <SelectItem value="reference">Replace with a reference</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            {repeatedBlocks.mode === "reference" && (
+                              <Input
+                                aria-label="Reference text"
+                                value={repeatedBlocks.reference}
+                                onChange={(e) => setRepeatedBlocks({ ...repeatedBlocks, reference: e.target.value })}
+                              />
+                            )}
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            Boilerplate like license blurbs is kept where it first appears
+                            {repeatedBlocks.mode === "reference" && "; {file} links to that file"}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Cover Page Settings */}
+                  <div className="space-y-3 p-4 bg-gray-50 rounded-lg border">
+                    <h4 className="text-sm font-medium">Cover page</h4>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="cover-title" className="text-xs">
+                          Title
+                        </Label>
+                        <Input
+                          id="cover-title"
+                          value={cover.title}
+                          onChange={(e) => updateCover({ title: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="cover-subtitle" className="text-xs">
+                          Subtitle ({"{count}"} is the number of files)
+                        </Label>
+                        <Input
+                          id="cover-subtitle"
+                          value={cover.subtitle}
+                          onChange={(e) => updateCover({ subtitle: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="cover-author" className="text-xs">
+                          Author
+                        </Label>
+                        <Input
+                          id="cover-author"
+                          value={cover.author}
+                          onChange={(e) => updateCover({ author: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="cover-organization" className="text-xs">
+                          Organization
+                        </Label>
+                        <Input
+                          id="cover-organization"
+                          value={cover.organization}
+                          onChange={(e) => updateCover({ organization: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="cover-date" className="text-xs">
+                          Date
+                        </Label>
+                        <div className="flex gap-2">
+                          <Input
+                            id="cover-date"
+                            type="date"
+                            value={cover.date}
+                            onChange={(e) => updateCover({ date: e.target.value })}
+                          />
+                          <Select
+                            value={cover.dateFormat}
+                            onValueChange={(value) => updateCover({ dateFormat: value as DateFormat })}
+                          >
+                            <SelectTrigger className="w-36" aria-label="Date format">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="long">Long</SelectItem>
+                              <SelectItem value="medium">Medium</SelectItem>
+                              <SelectItem value="short">Short</SelectItem>
+                              <SelectItem value="iso">ISO (yyyy-mm-dd)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="cover-version" className="text-xs">
+                          Version
+                        </Label>
+                        <Input
+                          id="cover-version"
+                          value={cover.version}
+                          onChange={(e) => updateCover({ version: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2 col-span-2">
+                        <Label htmlFor="cover-logo" className="text-xs">
+                          Logo (optional)
+                        </Label>
+                        <Input
+                          id="cover-logo"
+                          type="file"
+                          accept="image/png,image/jpeg,image/gif,image/webp,image/svg+xml"
+                          onChange={(e) => setCoverLogo(e.target.files?.[0] ?? null)}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Shown as the first page and saved as the document&apos;s title, author and creation date
+                    </p>
+                  </div>
+
+                  {/* Page Setup Settings */}
+                  <div className="space-y-3 p-4 bg-gray-50 rounded-lg border">
+                    <h4 className="text-sm font-medium">Page setup</h4>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="paper-size" className="text-xs">
+                          Paper size
+                        </Label>
+                        <Select
+                          value={pageSetup.paper}
+                          onValueChange={(value) => updatePageSetup({ paper: value as PageSetup["paper"] })}
+                        >
+                          <SelectTrigger id="paper-size">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(PAPER_SIZES).map(([value, size]) => (
+                              <SelectItem key={value} value={value}>
+                                {size.label}
+                              </SelectItem>
+                            ))}
+                            <SelectItem value="custom">Custom</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="orientation" className="text-xs">
+                          Orientation
+                        </Label>
+                        <Select
+                          value={pageSetup.orientation}
+                          onValueChange={(value) => updatePageSetup({ orientation: value as PageSetup["orientation"] })}
+                        >
+                          <SelectTrigger id="orientation">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="portrait">Portrait</SelectItem>
+                            <SelectItem value="landscape">Landscape</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {pageSetup.paper === "custom" && (
+                        <>
+                          <div className="space-y-2">
+                            <Label htmlFor="paper-width" className="text-xs">
+                              Width (in)
+                            </Label>
+                            <Input
+                              id="paper-width"
+                              type="number"
+                              min="1"
+                              step="0.1"
+                              value={inches(pageSetup.width)}
+                              onChange={(e) => updatePageSetup({ width: twips(e.target.value) })}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="paper-height" className="text-xs">
+                              Height (in)
+                            </Label>
+                            <Input
+                              id="paper-height"
+                              type="number"
+                              min="1"
+                              step="0.1"
+                              value={inches(pageSetup.height)}
+                              onChange={(e) => updatePageSetup({ height: twips(e.target.value) })}
+                            />
+                          </div>
+                        </>
+                      )}
+                      <div className="space-y-2">
+                        <Label htmlFor="margin-top" className="text-xs">
+                          Top margin (in)
+                        </Label>
+                        <Input
+                          id="margin-top"
+                          type="number"
+                          min="0"
+                          step="0.05"
+                          value={inches(pageSetup.margins.top)}
+                          onChange={(e) =>
+                            updatePageSetup({ margins: { ...pageSetup.margins, top: twips(e.target.value) } })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="margin-right" className="text-xs">
+                          Right margin (in)
+                        </Label>
+                        <Input
+                          id="margin-right"
+                          type="number"
+                          min="0"
+                          step="0.05"
+                          value={inches(pageSetup.margins.right)}
+                          onChange={(e) =>
+                            updatePageSetup({ margins: { ...pageSetup.margins, right: twips(e.target.value) } })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="margin-bottom" className="text-xs">
+                          Bottom margin (in)
+                        </Label>
+                        <Input
+                          id="margin-bottom"
+                          type="number"
+                          min="0"
+                          step="0.05"
+                          value={inches(pageSetup.margins.bottom)}
+                          onChange={(e) =>
+                            updatePageSetup({ margins: { ...pageSetup.margins, bottom: twips(e.target.value) } })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="margin-left" className="text-xs">
+                          Left margin (in)
+                        </Label>
+                        <Input
+                          id="margin-left"
+                          type="number"
+                          min="0"
+                          step="0.05"
+                          value={inches(pageSetup.margins.left)}
+                          onChange={(e) =>
+                            updatePageSetup({ margins: { ...pageSetup.margins, left: twips(e.target.value) } })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="page-header" className="text-xs">
+                          Header
+                        </Label>
+                        <Input
+                          id="page-header"
+                          value={pageSetup.header}
+                          placeholder="{title}"
+                          onChange={(e) => updatePageSetup({ header: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="page-footer" className="text-xs">
+                          Footer
+                        </Label>
+                        <Input
+                          id="page-footer"
+                          value={pageSetup.footer}
+                          placeholder="Page {page} of {pages}"
+                          onChange={(e) => updatePageSetup({ footer: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                    {textWidth(pageSetup) < 1440 && (
+                      <p className="text-xs text-red-600">The margins leave less than 1 inch for the text</p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Headers and footers can use {"{page}"}, {"{pages}"}, {"{title}"}, {"{filename}"} and {"{date}"};
+                      they are left off the cover page
+                    </p>
+                  </div>
+
+                  {/* Table of Contents Settings */}
+                  <div className="space-y-3 p-4 bg-gray-50 rounded-lg border">
+                    <h4 className="text-sm font-medium">Table of contents</h4>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="toc-mode" className="text-xs">
+                          Contents
+                        </Label>
+                        <Select value={tocMode} onValueChange={(value) => setTocMode(value as TocMode)}>
+                          <SelectTrigger id="toc-mode">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">None</SelectItem>
+                            <SelectItem value="field">Word TOC field (updates on open)</SelectItem>
+                            <SelectItem value="static">Static list</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="toc-depth" className="text-xs">
+                          Heading levels
+                        </Label>
+                        <Select
+                          value={String(tocDepth)}
+                          onValueChange={(value) => setTocDepth(Number(value))}
+                          disabled={tocMode === "none"}
+                        >
+                          <SelectTrigger id="toc-depth">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {[1, 2, 3, 4, 5, 6].map((depth) => (
+                              <SelectItem key={depth} value={String(depth)}>
+                                H1{depth > 1 ? `–H${depth}` : ""}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Lists every file and its headings with links to them. Word asks to update the field when the
+                      document is opened, which also fills in page numbers
+                    </p>
+                  </div>
+
+                  {/* Table Settings */}
+                  <div className="space-y-3 p-4 bg-gray-50 rounded-lg border">
+                    <h4 className="text-sm font-medium">Table formatting</h4>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="table-borders" className="text-xs">
+                          Borders
+                        </Label>
+                        <Select value={tableBorders} onValueChange={(value) => setTableBorders(value as TableBorders)}>
+                          <SelectTrigger id="table-borders">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">All cells</SelectItem>
+                            <SelectItem value="outer">Outer only</SelectItem>
+                            <SelectItem value="horizontal">Horizontal lines</SelectItem>
+                            <SelectItem value="none">None</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="table-padding" className="text-xs">
+                          Cell padding (pt)
+                        </Label>
+                        <Input
+                          id="table-padding"
+                          type="number"
+                          min={0}
+                          max={36}
+                          step={0.5}
+                          value={tableCellPadding}
+                          onChange={(e) => setTableCellPadding(Math.max(0, Number(e.target.value) || 0))}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Code Settings */}
+                  <div className="space-y-3 p-4 bg-gray-50 rounded-lg border">
+                    <h4 className="text-sm font-medium">Code blocks</h4>
+                    <div className="space-y-2">
+                      <Label htmlFor="code-theme" className="text-xs">
+                        Syntax highlighting
+                      </Label>
+                      <Select value={codeTheme} onValueChange={(value) => setCodeTheme(value as CodeThemeName | "none")}>
+                        <SelectTrigger id="code-theme">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(CODE_THEMES).map(([name, theme]) => (
+                            <SelectItem key={name} value={name}>
+                              {theme.label}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value="none">None (plain monospace)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  {/* Image Settings */}
+                  <div className="space-y-3 p-4 bg-gray-50 rounded-lg border">
+                    <h4 className="text-sm font-medium">Images</h4>
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="image-dpi" className="text-xs">
+                          SVG resolution (DPI)
+                        </Label>
+                        <Input
+                          id="image-dpi"
+                          type="number"
+                          min={48}
+                          max={600}
+                          step={24}
+                          value={imageDpi}
+                          onChange={(e) => setImageDpi(Math.max(48, Number(e.target.value) || 0))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="image-max-dimension" className="text-xs">
+                          Downscale to (px)
+                        </Label>
+                        <Input
+                          id="image-max-dimension"
+                          type="number"
+                          min={100}
+                          step={100}
+                          value={imageMaxDimension}
+                          onChange={(e) => setImageMaxDimension(Math.max(100, Number(e.target.value) || 0))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="image-max-size" className="text-xs">
+                          Max size per image (KB)
+                        </Label>
+                        <Input
+                          id="image-max-size"
+                          type="number"
+                          min={16}
+                          step={256}
+                          value={imageMaxSizeKB}
+                          onChange={(e) => setImageMaxSizeKB(Math.max(16, Number(e.target.value) || 0))}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      SVG, WebP and GIF images are converted to PNG. Images larger than the limits are downscaled and,
+                      if still too big, saved as JPEG or left out
+                    </p>
+                  </div>
+
+                  {/* Link Settings */}
+                  <div className="space-y-2 p-4 bg-gray-50 rounded-lg border">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="append-link-urls"
+                        checked={appendLinkUrls}
+                        onCheckedChange={(checked) => setAppendLinkUrls(checked === true)}
+                      />
+                      <Label htmlFor="append-link-urls" className="text-sm font-medium">
+                        Print link URLs after link text
+                      </Label>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Links stay clickable either way; this also shows their targets for print-oriented output
+                    </p>
+                    <div className="space-y-2 pt-2">
+                      <Label htmlFor="missing-link-note" className="text-xs">
+                        Note for links to files that aren&apos;t included
+                      </Label>
+                      <Input
+                        id="missing-link-note"
+                        placeholder="e.g. not included"
+                        value={missingLinkNote}
+                        onChange={(e) => setMissingLinkNote(e.target.value)}
+                      />
+                      <p className="text-xs text-gray-500">
+                        Links between selected files jump within the document; links to other files keep only their text
+                        and this note
+                      </p>
+                    </div>
                   </div>
 
                   {/* File List */}
@@ -670,9 +1561,39 @@ export default function MarkdownToRTFConverter() {
                 <span className="font-medium">Conversion Complete!</span>
               </div>
               <p className="text-sm text-green-600">
-                Successfully converted {selectedFiles.length} markdown files to RTF format.
+                Successfully converted {convertedCount} markdown files to RTF format.
               </p>
 
+              {/* Repeated Blocks */}
+              {repeatedBlocksRemoved.length > 0 && (
+                <div className="p-3 bg-gray-50 rounded-lg border text-xs space-y-1">
+                  <p className="font-medium text-sm">Repeated paragraphs removed:</p>
+                  <ul className="list-disc pl-5 space-y-1">
+                    {repeatedBlocksRemoved.map(({ path, count }) => (
+                      <li key={path}>
+                        {path}: {count}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Conversion Warnings */}
+              {warnings.length > 0 && (
+                <Alert>
+                  <AlertDescription>
+                    <p className="font-medium mb-1">
+                      {warnings.length} warning{warnings.length === 1 ? "" : "s"} during conversion:
+                    </p>
+                    <ul className="list-disc pl-5 space-y-1 text-xs">
+                      {warnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Optimization Stats */}
               {optimizationStats && (
                 <div className="p-3 bg-green-50 rounded-lg border border-green-200">
@@ -688,9 +1609,27 @@ export default function MarkdownToRTFConverter() {
                     </div>
                     <div>
                       <span className="text-green-600">Reduced by:</span>
-                      <p className="font-medium text-green-700">{optimizationStats.reduction}%</p>
+                      <p className="font-medium text-green-700">{formatReduction(optimizationStats)}%</p>
                     </div>
                   </div>
+                  {optimizationStats.passes.length > 0 && (
+                    <ChartContainer config={OPTIMIZATION_CHART_CONFIG} className="mt-3 aspect-auto h-32 w-full">
+                      <BarChart
+                        accessibilityLayer
+                        layout="vertical"
+                        data={optimizationStats.passes.map(({ pass, saved }) => ({
+                          label: OPTIMIZATION_PASSES[pass].label,
+                          saved,
+                        }))}
+                        margin={{ left: 0, right: 16 }}
+                      >
+                        <XAxis type="number" dataKey="saved" tickFormatter={(bytes: number) => formatFileSize(bytes)} />
+                        <YAxis type="category" dataKey="label" width={130} tickLine={false} axisLine={false} />
+                        <ChartTooltip cursor={false} content={<ChartTooltipContent hideLabel={false} />} />
+                        <Bar dataKey="saved" fill="var(--color-saved)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
                 </div>
               )}
 
@@ -723,6 +1662,60 @@ export default function MarkdownToRTFConverter() {
           </Card>
         )}
 
+        {/* Duplicate Review */}
+        <Dialog open={duplicateGroups.length > 0} onOpenChange={(open) => !open && setDuplicateGroups([])}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Review near-duplicate files</DialogTitle>
+              <DialogDescription>
+                The files in each group are at least {duplicateThreshold}% similar. Choose the copy to keep; the
+                others are left out of the document.
+              </DialogDescription>
+            </DialogHeader>
+            <ScrollArea className="max-h-96 pr-4">
+              <div className="space-y-4">
+                {duplicateGroups.map((group, i) => (
+                  <RadioGroup
+                    key={group.files[0].path}
+                    value={duplicateChoices[i]}
+                    onValueChange={(value) =>
+                      setDuplicateChoices((choices) => choices.map((choice, j) => (j === i ? value : choice)))
+                    }
+                    className="p-3 border rounded-lg"
+                  >
+                    {group.files.map((file, j) => (
+                      <div key={file.path} className="flex items-center gap-2">
+                        <RadioGroupItem value={file.path} id={`duplicate-${i}-${j}`} />
+                        <Label htmlFor={`duplicate-${i}-${j}`} className="flex-1 truncate text-sm">
+                          {file.path}
+                        </Label>
+                        <span className="text-xs text-gray-500">{formatFileSize(file.size)}</span>
+                        {j > 0 && (
+                          <Badge variant="secondary" className="text-xs">
+                            {Math.round(group.similarity[j] * 100)}% similar
+                          </Badge>
+                        )}
+                      </div>
+                    ))}
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value={KEEP_ALL_DUPLICATES} id={`duplicate-${i}-all`} />
+                      <Label htmlFor={`duplicate-${i}-all`} className="text-sm text-gray-600">
+                        Keep all
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                ))}
+              </div>
+            </ScrollArea>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDuplicateGroups([])}>
+                Cancel
+              </Button>
+              <Button onClick={confirmDuplicateReview}>Convert</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Instructions */}
         <Card>
           <CardHeader>
@@ -733,7 +1726,7 @@ export default function MarkdownToRTFConverter() {
               <div className="w-6 h-6 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-xs font-medium">
                 1
               </div>
-              <p>Upload a ZIP file containing your Markdown (.md) files</p>
+              <p>Upload a ZIP or tar archive, or drop a folder or Markdown files onto the upload card</p>
             </div>
             <div className="flex items-start gap-3">
               <div className="w-6 h-6 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-xs font-medium">
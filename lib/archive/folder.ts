@@ -0,0 +1,79 @@
+import type { ArchiveEntry } from "./reader"
+
+// Folders and loose files picked or dropped in the browser, read as if they were an archive: each
+// file's path is relative to the folder it was picked from, starting with that folder's name.
+
+// A file chosen by the user with its path in the folder, or just its name when it was loose
+export interface LocalFile {
+  path: string
+  file: File
+}
+
+export function localEntries(files: LocalFile[]): ArchiveEntry[] {
+  return files.map(({ path, file }) => ({
+    path,
+    text: () => file.text(),
+    bytes: async () => new Uint8Array(await file.arrayBuffer()),
+  }))
+}
+
+// Splits off the folder that all the files are in, when there is one, so it can name them as a group
+// Archives made by compressing a folder have one too.
+export function splitRootFolder<T extends { path: string }>(files: T[]): { root: string | null; files: T[] } {
+  const root = files[0]?.path.split("/")[0]
+  if (!root || !files.every((file) => file.path.startsWith(`${root}/`))) {
+    return { root: null, files }
+  }
+  return { root, files: files.map((file) => ({ ...file, path: file.path.slice(root.length + 1) })) }
+}
+
+// Files from an <input type="file">, which has the path in webkitRelativePath when a folder was picked
+export function inputFiles(files: FileList): LocalFile[] {
+  return Array.from(files).map((file) => ({ path: file.webkitRelativePath || file.name, file }))
+}
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
+
+// Children of a dropped directory. readEntries returns them in batches (100 at a time in Chrome) and
+// an empty batch at the end.
+async function readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = entry.createReader()
+  const children: FileSystemEntry[] = []
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) {
+      return children
+    }
+    children.push(...batch)
+  }
+}
+
+async function collectFiles(entry: FileSystemEntry, files: LocalFile[]): Promise<void> {
+  if (entry.isFile) {
+    files.push({ path: entry.fullPath.replace(/^\/+/, ""), file: await readFile(entry as FileSystemFileEntry) })
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+      await collectFiles(child, files)
+    }
+  }
+}
+
+// Files dropped onto the page, walking into dropped folders. The items have to be taken from the
+// DataTransfer before the drop handler first awaits, as the browser empties it afterwards.
+export async function droppedFiles(data: DataTransfer): Promise<LocalFile[]> {
+  const entries = Array.from(data.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry())
+  // Browsers without the entries API only give the top-level files
+  if (entries.some((entry) => entry === null)) {
+    return Array.from(data.files).map((file) => ({ path: file.name, file }))
+  }
+
+  const files: LocalFile[] = []
+  for (const entry of entries) {
+    await collectFiles(entry as FileSystemEntry, files)
+  }
+  return files
+}
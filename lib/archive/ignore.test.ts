@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+import { createPathFilter, isJunkPath, matchesPathRules, parsePathRules } from "./ignore"
+
+function matches(patterns: string, path: string): boolean {
+  return matchesPathRules(path, parsePathRules(patterns))
+}
+
+describe("isJunkPath", () => {
+  it("skips macOS metadata, dotfiles and installed packages", () => {
+    expect(isJunkPath("__MACOSX/._a.md")).toBe(true)
+    expect(isJunkPath("docs/.DS_Store")).toBe(true)
+    expect(isJunkPath(".github/x.md")).toBe(true)
+    expect(isJunkPath("a/node_modules/b.md")).toBe(true)
+    expect(isJunkPath("docs/guide.md")).toBe(false)
+  })
+})
+
+describe("matchesPathRules", () => {
+  it("matches a pattern without a slash at any depth", () => {
+    expect(matches("*.txt", "notes.txt")).toBe(true)
+    expect(matches("*.txt", "a/b/notes.txt")).toBe(true)
+    expect(matches("draft-?.md", "a/draft-1.md")).toBe(true)
+    expect(matches("draft-?.md", "a/draft-10.md")).toBe(false)
+  })
+
+  it("anchors a pattern with a slash to the root", () => {
+    expect(matches("docs/*.md", "docs/a.md")).toBe(true)
+    expect(matches("docs/*.md", "x/docs/a.md")).toBe(false)
+    expect(matches("docs/*.md", "docs/sub/a.md")).toBe(false)
+    expect(matches("/a.md", "a.md")).toBe(true)
+    expect(matches("/a.md", "sub/a.md")).toBe(false)
+  })
+
+  it("matches any number of folders with **/", () => {
+    expect(matches("**/drafts/*.md", "drafts/a.md")).toBe(true)
+    expect(matches("**/drafts/*.md", "a/b/drafts/a.md")).toBe(true)
+    expect(matches("docs/**/a.md", "docs/a.md")).toBe(true)
+    expect(matches("docs/**/a.md", "docs/x/y/a.md")).toBe(true)
+  })
+
+  it("matches everything inside a folder with a trailing **", () => {
+    expect(matches("docs/**", "docs/a/b.md")).toBe(true)
+    expect(matches("docs/**", "other/docs/a.md")).toBe(false)
+  })
+
+  it("reads character classes, negated with !", () => {
+    expect(matches("[ab].md", "b.md")).toBe(true)
+    expect(matches("[ab].md", "c.md")).toBe(false)
+    expect(matches("[!a]*.md", "b.md")).toBe(true)
+    expect(matches("[!a]*.md", "a.md")).toBe(false)
+  })
+
+  it("lets the last matching pattern decide", () => {
+    expect(matches("*.md\n!keep.md", "keep.md")).toBe(false)
+    expect(matches("*.md\n!keep.md", "other.md")).toBe(true)
+    expect(matches("!keep.md\n*.md", "keep.md")).toBe(true)
+  })
+
+  it("matches folders only with a trailing slash", () => {
+    expect(matches("drafts/", "drafts/a.md")).toBe(true)
+    expect(matches("drafts/", "a/drafts/b/c.md")).toBe(true)
+    expect(matches("drafts/", "a/drafts")).toBe(false)
+    expect(matches("drafts", "a/drafts")).toBe(true)
+  })
+
+  it("can't take a file in a matched folder back out", () => {
+    expect(matches("drafts/\n!drafts/keep.md", "drafts/keep.md")).toBe(true)
+    expect(matches("drafts/*\n!drafts/keep.md", "drafts/keep.md")).toBe(false)
+  })
+
+  it("skips blank lines and comments and reads escaped # and !", () => {
+    expect(parsePathRules("\n# a comment\n   \n")).toEqual([])
+    expect(matches("\\#notes.md", "#notes.md")).toBe(true)
+    expect(matches("\\!important.md", "!important.md")).toBe(true)
+  })
+})
+
+describe("createPathFilter", () => {
+  it("keeps files matching an include pattern and no exclude pattern", () => {
+    const isIncluded = createPathFilter({ include: "docs/**\nREADME.md", exclude: "*.draft.md\ndocs/internal/" })
+    expect(isIncluded("README.md")).toBe(true)
+    expect(isIncluded("docs/guide.md")).toBe(true)
+    expect(isIncluded("docs/guide.draft.md")).toBe(false)
+    expect(isIncluded("docs/internal/plan.md")).toBe(false)
+    expect(isIncluded("src/notes.md")).toBe(false)
+  })
+
+  it("keeps everything without patterns", () => {
+    expect(createPathFilter({ include: "", exclude: "" })("any/path.md")).toBe(true)
+  })
+})
@@ -0,0 +1,115 @@
+// Picks which files of an archive or folder are used: junk that tools leave in archives is always
+// skipped, and gitignore-style patterns narrow the rest down. Paths are relative to the archive root.
+
+// Patterns for the files a source leaves out, read from its root when present
+export const IGNORE_FILE_NAME = ".mdconvertignore"
+
+// Patterns typed by the user, one per line. With include patterns, only files matching one are used;
+// files matching the exclude patterns are left out.
+export interface PathFilter {
+  include: string
+  exclude: string
+}
+
+export const DEFAULT_PATH_FILTER: PathFilter = { include: "", exclude: "" }
+
+// One line of a gitignore-style pattern list
+export interface PathRule {
+  pattern: RegExp
+  // "!pattern": takes matching paths back out of the earlier patterns' matches
+  negated: boolean
+  // "pattern/": matches folders only
+  directoryOnly: boolean
+}
+
+// macOS resource forks and metadata (__MACOSX, .DS_Store), dotfiles and dot-folders such as .git and
+// .github, and installed packages
+export function isJunkPath(path: string): boolean {
+  return path
+    .split("/")
+    .some((segment) => segment === "__MACOSX" || segment === "node_modules" || segment.startsWith("."))
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")
+}
+
+// "*" and "?" stay within a path segment; "**/" matches any number of folders and a trailing "**"
+// everything inside a folder
+function globSource(glob: string): string {
+  let source = ""
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === "*" && glob[i + 1] === "*") {
+      source += glob[i + 2] === "/" ? "(?:.*/)?" : ".*"
+      i += glob[i + 2] === "/" ? 2 : 1
+    } else if (char === "*") {
+      source += "[^/]*"
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (char === "[" && glob.indexOf("]", i + 2) !== -1) {
+      const end = glob.indexOf("]", i + 2)
+      const members = glob.slice(i + 1, end).replace(/\\/g, "\\\\")
+      source += `[${members.startsWith("!") ? "^" + members.slice(1) : members}]`
+      i = end
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i])
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+  return source
+}
+
+function parsePathRule(line: string): PathRule | null {
+  let glob = line.trim()
+  if (!glob || glob.startsWith("#")) {
+    return null
+  }
+  const negated = glob.startsWith("!")
+  if (negated || glob.startsWith("\\!") || glob.startsWith("\\#")) {
+    glob = glob.slice(1)
+  }
+  const directoryOnly = glob.endsWith("/")
+  glob = glob.replace(/\/+$/, "")
+  // A pattern with a slash is relative to the root; one without matches a name at any depth
+  const anchored = glob.includes("/")
+  glob = glob.replace(/^\/+/, "")
+  if (!glob) {
+    return null
+  }
+  return { pattern: new RegExp(`^${anchored ? "" : "(?:.*/)?"}${globSource(glob)}$`), negated, directoryOnly }
+}
+
+export function parsePathRules(text: string): PathRule[] {
+  return text.split(/\r?\n/).flatMap((line) => parsePathRule(line) ?? [])
+}
+
+// As in gitignore, the last matching rule decides
+function lastMatch(path: string, isDirectory: boolean, rules: PathRule[]): boolean {
+  let matched = false
+  for (const rule of rules) {
+    if ((isDirectory || !rule.directoryOnly) && rule.pattern.test(path)) {
+      matched = !rule.negated
+    }
+  }
+  return matched
+}
+
+// Whether the rules match a file, directly or through one of its folders. As in gitignore, a file in a
+// matched folder can't be taken back out with a negated pattern.
+export function matchesPathRules(path: string, rules: PathRule[]): boolean {
+  const segments = path.split("/")
+  for (let i = 1; i < segments.length; i++) {
+    if (lastMatch(segments.slice(0, i).join("/"), true, rules)) {
+      return true
+    }
+  }
+  return lastMatch(path, false, rules)
+}
+
+export function createPathFilter(filter: PathFilter): (path: string) => boolean {
+  const include = parsePathRules(filter.include)
+  const exclude = parsePathRules(filter.exclude)
+  return (path) => (include.length === 0 || matchesPathRules(path, include)) && !matchesPathRules(path, exclude)
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+import { resolvePath, resolveUrlPath } from "./paths"
+
+describe("resolvePath", () => {
+  it("resolves against the file's directory", () => {
+    expect(resolvePath("docs/guide/a.md", "../b.md")).toBe("docs/b.md")
+    expect(resolvePath("docs/a.md", "./img/x.png")).toBe("docs/img/x.png")
+  })
+
+  it("takes root-relative paths from the file's source", () => {
+    expect(resolvePath("docs/guide/a.md", "/img/x.png", "docs")).toBe("docs/img/x.png")
+    expect(resolvePath("docs/a.md", "/img/x.png")).toBe("img/x.png")
+  })
+
+  it("doesn't climb out of the file's source", () => {
+    expect(resolvePath("docs/guide/a.md", "../../../api/b.md", "docs")).toBe("docs/api/b.md")
+    expect(resolvePath("docs/a.md", "/../api/b.md", "docs")).toBe("docs/api/b.md")
+  })
+})
+
+describe("resolveUrlPath", () => {
+  it("decodes the path and drops the query and fragment", () => {
+    expect(resolveUrlPath("docs/a.md", "/My%20Notes.md?raw=1#setup", "docs")).toBe("docs/My Notes.md")
+  })
+})
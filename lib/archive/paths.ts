@@ -0,0 +1,39 @@
+const reScheme = /^[A-Za-z][A-Za-z0-9+.-]*:/
+
+// URLs with a scheme ("https:", "mailto:", "data:") or protocol-relative ones never point into the archive
+export function isExternalUrl(url: string): boolean {
+  return reScheme.test(url) || url.startsWith("//")
+}
+
+// Resolves a relative path against the directory of an archive path, e.g. "docs/a.md" + "../b.md" -> "b.md".
+// root is the directory of the source the file came from, or "" for the whole archive: paths starting
+// with "/" are taken from it, and ".." never leaves it for another source.
+export function resolvePath(from: string, relative: string, root = ""): string {
+  const rootParts = root ? root.split("/") : []
+  const parts = relative.startsWith("/") ? [...rootParts] : from.split("/").slice(0, -1)
+  for (const segment of relative.split("/")) {
+    if (segment === "..") {
+      if (parts.length > rootParts.length) {
+        parts.pop()
+      }
+    } else if (segment !== "." && segment !== "") {
+      parts.push(segment)
+    }
+  }
+  return parts.join("/")
+}
+
+// Percent-decodes a URL component, keeping it as written when it isn't valid UTF-8
+export function decodeUrlComponent(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+// Resolves a link or image URL written in the file at fromPath, from the source at root, to the archive
+// path it points at, ignoring any query or fragment
+export function resolveUrlPath(fromPath: string, url: string, root = ""): string {
+  return resolvePath(fromPath, decodeUrlComponent(url.replace(/[?#].*$/, "")), root)
+}
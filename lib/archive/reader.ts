@@ -0,0 +1,53 @@
+import { tarReader } from "./tar"
+import { zipReader } from "./zip"
+
+// A file in an uploaded archive. Contents are read on demand, since most entries of a large archive
+// are never used.
+export interface ArchiveEntry {
+  // "/"-separated path inside the archive, without a leading "./"
+  path: string
+  text(): Promise<string>
+  bytes(): Promise<Uint8Array>
+}
+
+// One archive format. Readers throw errors whose messages are meant for the user.
+export interface ArchiveReader {
+  // Whether the file is in this format, judged by its name and first bytes
+  detect(name: string, header: Uint8Array): boolean
+  // Checks the file before anything is extracted, throwing when it can't be read
+  check(file: File): Promise<void>
+  // Lists the files in the archive; directories aren't entries
+  open(file: File): Promise<ArchiveEntry[]>
+}
+
+// Tried in order; ZIP comes first, as its signature is the more specific one
+const ARCHIVE_READERS: ArchiveReader[] = [zipReader, tarReader]
+
+// Enough for the magic at offset 257 of a tar header
+const HEADER_SIZE = 512
+
+export const ARCHIVE_EXTENSIONS = [".zip", ".tar", ".tar.gz", ".tgz"]
+
+// The archive's file name without its extension, e.g. "docs.tar.gz" -> "docs"
+export function archiveBaseName(name: string): string {
+  const extension = ARCHIVE_EXTENSIONS.find((candidate) => name.toLowerCase().endsWith(candidate))
+  return extension && name.length > extension.length ? name.slice(0, -extension.length) : name
+}
+
+async function findReader(file: File): Promise<ArchiveReader> {
+  const header = new Uint8Array(await file.slice(0, HEADER_SIZE).arrayBuffer())
+  const reader = ARCHIVE_READERS.find((candidate) => candidate.detect(file.name, header))
+  if (!reader) {
+    throw new Error(`"${file.name}" is not a supported archive (${ARCHIVE_EXTENSIONS.join(", ")})`)
+  }
+  return reader
+}
+
+// Checks an upload by its name and first bytes, whatever type the browser reports for it
+export async function checkArchive(file: File): Promise<void> {
+  await (await findReader(file)).check(file)
+}
+
+export async function openArchive(file: File): Promise<ArchiveEntry[]> {
+  return (await findReader(file)).open(file)
+}
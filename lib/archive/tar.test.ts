@@ -0,0 +1,156 @@
+import { gzip } from "pako"
+import { describe, expect, it } from "vitest"
+import { tarReader } from "./tar"
+
+// Builds tar archives in memory, one 512-byte header per entry followed by its padded contents
+
+const encoder = new TextEncoder()
+
+interface HeaderOptions {
+  type?: string
+  prefix?: string
+  // Written at offset 257; old GNU tar writes "ustar  \0" and keeps times where ustar has the prefix
+  magic?: string
+  // Size as a base-256 number instead of octal text
+  binarySize?: boolean
+}
+
+function writeText(block: Uint8Array, offset: number, text: string) {
+  block.set(encoder.encode(text), offset)
+}
+
+function header(name: string, size: number, options: HeaderOptions = {}): Uint8Array {
+  const block = new Uint8Array(512)
+  writeText(block, 0, name)
+  writeText(block, 100, "0000644\0")
+  if (options.binarySize) {
+    block[124] = 0x80
+    block[135] = size
+  } else {
+    writeText(block, 124, size.toString(8).padStart(11, "0") + "\0")
+  }
+  writeText(block, 136, "00000000000\0")
+  writeText(block, 156, options.type ?? "0")
+  // Magic and version
+  writeText(block, 257, options.magic ?? "ustar\0" + "00")
+  if (options.prefix) {
+    writeText(block, 345, options.prefix)
+  }
+  let sum = 0
+  for (let i = 0; i < 512; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : block[i]
+  }
+  writeText(block, 148, sum.toString(8).padStart(6, "0") + "\0 ")
+  return block
+}
+
+function entry(name: string, contents: string, options: HeaderOptions = {}): Uint8Array[] {
+  const data = encoder.encode(contents)
+  const padded = new Uint8Array(Math.ceil(data.length / 512) * 512)
+  padded.set(data)
+  return [header(name, data.length, options), padded]
+}
+
+function tar(...parts: Uint8Array[][]): Uint8Array {
+  const blocks = [...parts.flat(), new Uint8Array(1024)]
+  const data = new Uint8Array(blocks.reduce((length, block) => length + block.length, 0))
+  let offset = 0
+  for (const block of blocks) {
+    data.set(block, offset)
+    offset += block.length
+  }
+  return data
+}
+
+function tarFile(data: Uint8Array, name = "docs.tar"): File {
+  return new File([data], name)
+}
+
+async function list(data: Uint8Array, name?: string): Promise<[string, string][]> {
+  const entries = await tarReader.open(tarFile(data, name))
+  return Promise.all(entries.map(async (file) => [file.path, await file.text()] as [string, string]))
+}
+
+// "length key=value\n", where the length counts the whole record, its own digits included
+function paxRecord(key: string, value: string): string {
+  const record = ` ${key}=${value}\n`
+  let length = record.length
+  while (`${length}${record}`.length !== length) {
+    length = `${length}${record}`.length
+  }
+  return `${length}${record}`
+}
+
+const LONG_NAME = `docs/${"nested-folder/".repeat(10)}guide.md`
+
+describe("tarReader", () => {
+  it("lists regular files, skipping directories and leading ./", async () => {
+    const data = tar(entry("./docs/", "", { type: "5" }), entry("./docs/a.md", "# A\n"), entry("docs/b.md", "B"))
+    expect(await list(data)).toEqual([
+      ["docs/a.md", "# A\n"],
+      ["docs/b.md", "B"],
+    ])
+  })
+
+  it("joins the ustar prefix and name", async () => {
+    expect(await list(tar(entry("guide.md", "G", { prefix: "docs/nested" })))).toEqual([["docs/nested/guide.md", "G"]])
+  })
+
+  it("ignores the prefix field of old GNU headers", async () => {
+    const data = tar(entry("guide.md", "G", { magic: "ustar  \0", prefix: "14712345670" }))
+    expect(await list(data)).toEqual([["guide.md", "G"]])
+  })
+
+  it("reads long names from GNU ././@LongLink entries", async () => {
+    const data = tar(
+      entry("././@LongLink", LONG_NAME + "\0", { type: "L", magic: "ustar  \0" }),
+      entry(LONG_NAME.slice(0, 99), "G", { magic: "ustar  \0" }),
+      entry("short.md", "S"),
+    )
+    expect(await list(data)).toEqual([
+      [LONG_NAME, "G"],
+      ["short.md", "S"],
+    ])
+  })
+
+  it("reads long names from pax path records", async () => {
+    const data = tar(entry("PaxHeaders/guide.md", paxRecord("path", LONG_NAME), { type: "x" }), entry("guide.md", "G"))
+    expect(await list(data)).toEqual([[LONG_NAME, "G"]])
+  })
+
+  it("reads base-256 sizes", async () => {
+    expect(await list(tar(entry("a.md", "binary", { binarySize: true })))).toEqual([["a.md", "binary"]])
+  })
+
+  it("reads gzip-compressed archives", async () => {
+    expect(await list(gzip(tar(entry("a.md", "A"))), "docs.tgz")).toEqual([["a.md", "A"]])
+  })
+
+  it("rejects a header with a bad checksum", async () => {
+    const data = tar(entry("a.md", "A"), entry("b.md", "B"))
+    data[1024] = "c".charCodeAt(0)
+    await expect(tarReader.open(tarFile(data))).rejects.toThrow(
+      `"docs.tar" can't be opened: it is corrupt (bad header checksum at byte 1024)`,
+    )
+  })
+
+  it("rejects an archive that ends partway through an entry", async () => {
+    const data = tar(entry("a.md", "A".repeat(1000))).subarray(0, 1024)
+    await expect(tarReader.open(tarFile(data))).rejects.toThrow("it is incomplete (the last entry is cut off)")
+  })
+
+  it("rejects damaged gzip data and empty archives", async () => {
+    const compressed = gzip(tar(entry("a.md", "A".repeat(5000))))
+    await expect(tarReader.open(tarFile(compressed.subarray(0, 40), "docs.tgz"))).rejects.toThrow(
+      "it is corrupt or incomplete",
+    )
+    await expect(tarReader.open(tarFile(tar()))).rejects.toThrow(`"docs.tar" is an empty archive`)
+  })
+
+  it("detects tarballs by name or magic", () => {
+    const block = header("a.md", 0, { magic: "ustar  \0" })
+    expect(tarReader.detect("upload.bin", block)).toBe(true)
+    expect(tarReader.detect("docs.tar.gz", new Uint8Array(512))).toBe(true)
+    expect(tarReader.detect("notes.txt", new Uint8Array(512))).toBe(false)
+  })
+})
@@ -0,0 +1,151 @@
+import { ungzip } from "pako"
+import type { ArchiveEntry, ArchiveReader } from "./reader"
+
+// Tarballs, optionally gzip-compressed, read in memory. Covers the ustar, pax and GNU variants that
+// CI tools produce: long names come from pax "path" records and GNU ././@LongLink entries.
+
+const BLOCK_SIZE = 512
+const GZIP_MAGIC = [0x1f, 0x8b]
+// Magic at offset 257. POSIX ustar headers have exactly "ustar\0"; old GNU headers have "ustar  " and
+// keep access and change times where ustar has the name prefix.
+const TAR_MAGIC = "ustar"
+const USTAR_MAGIC = "ustar\0"
+
+const reTarName = /\.(?:tar|tar\.gz|tgz)$/i
+const reGzipName = /\.(?:gz|tgz)$/i
+
+const decoder = new TextDecoder()
+
+function isGzip(header: Uint8Array): boolean {
+  return header[0] === GZIP_MAGIC[0] && header[1] === GZIP_MAGIC[1]
+}
+
+// The six bytes of the magic field, NULs included
+function magic(block: Uint8Array): string {
+  return decoder.decode(block.subarray(257, 263))
+}
+
+// NUL-terminated string field of a header
+function field(block: Uint8Array, offset: number, length: number): string {
+  const bytes = block.subarray(offset, offset + length)
+  const end = bytes.indexOf(0)
+  return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end))
+}
+
+// Numeric field: octal text, or big-endian binary when the first byte has its high bit set (GNU
+// tar's encoding for sizes over 8 GB)
+function numberField(block: Uint8Array, offset: number, length: number): number {
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + block[offset + i]
+    }
+    return value
+  }
+  return Number.parseInt(field(block, offset, length).trim() || "0", 8)
+}
+
+// The checksum is the byte sum of the header with the checksum field itself counted as spaces
+function hasValidChecksum(block: Uint8Array): boolean {
+  let sum = 0
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : block[i]
+  }
+  return sum === numberField(block, 148, 8)
+}
+
+// "path" from the "length key=value\n" records of a pax extended header
+function paxPath(data: Uint8Array): string | null {
+  let path: string | null = null
+  for (const record of decoder.decode(data).split("\n")) {
+    const match = record.match(/^\d+ path=(.*)$/)
+    if (match) {
+      path = match[1]
+    }
+  }
+  return path
+}
+
+function memoryEntry(path: string, data: Uint8Array): ArchiveEntry {
+  return { path, text: async () => decoder.decode(data), bytes: async () => data }
+}
+
+// Lists the regular files in an uncompressed tar archive. Throws with the reason when it is damaged.
+function readTar(data: Uint8Array): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = []
+  // Name for the next entry from a pax or GNU long name header
+  let longName: string | null = null
+  let offset = 0
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const block = data.subarray(offset, offset + BLOCK_SIZE)
+    // The archive ends with zero blocks
+    if (block.every((byte) => byte === 0)) {
+      return entries
+    }
+    if (!hasValidChecksum(block)) {
+      throw new Error(`it is corrupt (bad header checksum at byte ${offset})`)
+    }
+
+    const size = numberField(block, 124, 12)
+    const type = String.fromCharCode(block[156] || 0x30)
+    const start = offset + BLOCK_SIZE
+    if (start + size > data.length) {
+      throw new Error("it is incomplete (the last entry is cut off)")
+    }
+    const contents = data.subarray(start, start + size)
+    offset = start + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE
+
+    if (type === "x") {
+      longName = paxPath(contents) ?? longName
+      continue
+    }
+    if (type === "L") {
+      longName = field(contents, 0, contents.length)
+      continue
+    }
+    const prefix = magic(block) === USTAR_MAGIC ? field(block, 345, 155) : ""
+    const name = field(block, 0, 100)
+    const path = (longName ?? (prefix ? `${prefix}/${name}` : name)).replace(/^(?:\.\/)+/, "")
+    longName = null
+    // Regular files only; directories, links and global pax headers are skipped
+    if ((type === "0" || type === "7") && path && !path.endsWith("/")) {
+      entries.push(memoryEntry(path, contents))
+    }
+  }
+  // Some tools leave out the end-of-archive blocks, but a partial block means data is missing
+  if (offset !== data.length) {
+    throw new Error("it is incomplete (it ends partway through an entry)")
+  }
+  return entries
+}
+
+async function loadTar(file: File): Promise<ArchiveEntry[]> {
+  let data = new Uint8Array(await file.arrayBuffer())
+  if (isGzip(data)) {
+    try {
+      data = ungzip(data)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new Error(`"${file.name}" can't be opened: it is corrupt or incomplete (${reason})`)
+    }
+  }
+  let entries: ArchiveEntry[]
+  try {
+    entries = readTar(data)
+  } catch (error) {
+    throw new Error(`"${file.name}" can't be opened: ${error instanceof Error ? error.message : error}`)
+  }
+  if (entries.length === 0) {
+    throw new Error(`"${file.name}" is an empty archive`)
+  }
+  return entries
+}
+
+export const tarReader: ArchiveReader = {
+  detect: (name, header) =>
+    reTarName.test(name) || (isGzip(header) && reGzipName.test(name)) || magic(header).startsWith(TAR_MAGIC),
+  // The whole archive has to be decompressed to check it, which happens when it is opened anyway
+  check: async () => {},
+  open: loadTar,
+}
@@ -0,0 +1,91 @@
+import JSZip from "jszip"
+import type { ArchiveReader } from "./reader"
+
+// Signatures a ZIP file can start with: a local file header, the end-of-central-directory record of
+// an archive without entries, and the marker that starts the first part of a spanned archive
+const LOCAL_FILE_HEADER = [0x50, 0x4b, 0x03, 0x04]
+const EMPTY_ARCHIVE = [0x50, 0x4b, 0x05, 0x06]
+const SPANNED_ARCHIVE = [0x50, 0x4b, 0x07, 0x08]
+
+const reZipName = /\.zip$/i
+
+function startsWith(header: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, i) => header[i] === byte)
+}
+
+function hasZipSignature(header: Uint8Array): boolean {
+  return [LOCAL_FILE_HEADER, EMPTY_ARCHIVE, SPANNED_ARCHIVE].some((signature) => startsWith(header, signature))
+}
+
+// Checks an upload by its first bytes and name before anything is extracted
+async function checkZipFile(file: File): Promise<void> {
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer())
+  if (startsWith(header, LOCAL_FILE_HEADER)) {
+    return
+  }
+  if (startsWith(header, EMPTY_ARCHIVE)) {
+    throw new Error(`"${file.name}" is an empty ZIP archive`)
+  }
+  if (startsWith(header, SPANNED_ARCHIVE)) {
+    throw new Error(`"${file.name}" is part of a spanned ZIP archive; combine the parts into a single archive first`)
+  }
+  if (reZipName.test(file.name)) {
+    throw new Error(`"${file.name}" is corrupt: it doesn't start like a ZIP archive`)
+  }
+  throw new Error(`"${file.name}" is not a ZIP archive`)
+}
+
+// Turns a JSZip error into the reason an archive or entry can't be read
+function describeZipError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error)
+  if (/encrypted/i.test(message)) {
+    return "it has password-protected entries, which can't be read; create the archive without a password"
+  }
+  if (/multi-volume/i.test(message)) {
+    return "it is part of a spanned archive; combine the parts into a single archive first"
+  }
+  if (/compression/i.test(message)) {
+    return "it uses a compression method that isn't supported; re-create it with standard (deflate) compression"
+  }
+  return `it is corrupt or incomplete (${message.trim()})`
+}
+
+// Loads a ZIP archive, throwing a specific error when it is corrupt, spanned, encrypted or empty
+async function loadZip(file: File): Promise<JSZip> {
+  let zip: JSZip
+  try {
+    zip = await new JSZip().loadAsync(file)
+  } catch (error) {
+    throw new Error(`"${file.name}" can't be opened: ${describeZipError(error)}`)
+  }
+  if (Object.values(zip.files).every((entry) => entry.dir)) {
+    throw new Error(`"${file.name}" is an empty ZIP archive`)
+  }
+  return zip
+}
+
+// Reads an entry's contents, throwing a specific error when its data can't be decompressed
+async function readEntry<T>(name: string, read: () => Promise<T>): Promise<T> {
+  try {
+    return await read()
+  } catch (error) {
+    throw new Error(`"${name}" can't be read: ${describeZipError(error)}`)
+  }
+}
+
+// ZIP archives, read with JSZip. Files whose name ends in .zip are taken as ZIPs even without the
+// signature, so a damaged one is reported as corrupt rather than as an unknown format.
+export const zipReader: ArchiveReader = {
+  detect: (name, header) => hasZipSignature(header) || reZipName.test(name),
+  check: checkZipFile,
+  async open(file) {
+    const zip = await loadZip(file)
+    return Object.values(zip.files)
+      .filter((entry) => !entry.dir)
+      .map((entry) => ({
+        path: entry.name.replace(/^(?:\.\/)+/, ""),
+        text: () => readEntry(entry.name, () => entry.async("text")),
+        bytes: () => readEntry(entry.name, () => entry.async("uint8array")),
+      }))
+  },
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest"
+import type { BlockNode, Link } from "@/lib/markdown/ast"
+import { parseMarkdown } from "@/lib/markdown/parser"
+import { BookmarkTable } from "@/lib/rtf/bookmarks"
+import { removeRepeatedBlocks, type RepeatedBlockOptions } from "./paragraphs"
+
+const LICENSE = "Licensed under the Apache License, Version 2.0; see LICENSE for details."
+const FOOTER = "This page was generated from the API schema, so edit the schema instead."
+
+function source(path: string, content: string, from = "docs") {
+  return { name: path.replace(/^.*\/|\.md$/g, ""), path: `${from}/${path}`, source: from, tree: parseMarkdown(content) }
+}
+
+// The inline nodes of a paragraph
+function inlines(block: BlockNode | undefined) {
+  return block?.type === "paragraph" ? block.children : []
+}
+
+const REMOVE: RepeatedBlockOptions = { mode: "remove", reference: "See {file} above." }
+const REFERENCE: RepeatedBlockOptions = { mode: "reference", reference: "See {file} above." }
+
+describe("removeRepeatedBlocks", () => {
+  it("keeps the first copy and removes later ones", () => {
+    const sources = [source("a.md", `Intro to A.\n\n${LICENSE}\n`), source("b.md", `Intro to B.\n\n${LICENSE}\n`)]
+    const result = removeRepeatedBlocks(sources, REMOVE)
+    expect(result.sources[0].tree).toEqual(sources[0].tree)
+    expect(result.sources[1].tree.children).toEqual([sources[1].tree.children[0]])
+    expect(result.removed).toEqual([{ path: "docs/b.md", count: 1 }])
+  })
+
+  it("keeps copies within the file where the block first appears", () => {
+    const sources = [source("a.md", `${LICENSE}\n\n${LICENSE}\n`)]
+    expect(removeRepeatedBlocks(sources, REMOVE)).toEqual({ sources, removed: [] })
+  })
+
+  it("leaves headings and short blocks alone", () => {
+    const content = `# ${LICENSE}\n\nSee the license.\n`
+    const sources = [source("a.md", content), source("b.md", content)]
+    const result = removeRepeatedBlocks(sources, REMOVE)
+    expect(result.sources[1].tree).toEqual(sources[1].tree)
+    expect(result.removed).toEqual([])
+  })
+
+  it("puts a single reference in place of a run of copies", () => {
+    const sources = [
+      source("a.md", `${LICENSE}\n\n${FOOTER}\n`),
+      source("b.md", `Intro to B.\n\n${LICENSE}\n\n${FOOTER}\n\nMiddle.\n\n${LICENSE}\n`),
+    ]
+    const result = removeRepeatedBlocks(sources, REFERENCE)
+    const children = result.sources[1].tree.children
+    expect(children.map((block) => inlines(block)[0])).toEqual([
+      { type: "text", value: "Intro to B." },
+      { type: "text", value: "See " },
+      { type: "text", value: "Middle." },
+      { type: "text", value: "See " },
+    ])
+    expect(result.removed).toEqual([{ path: "docs/b.md", count: 3 }])
+  })
+
+  it("links the reference to the first file's bookmark", () => {
+    const sources = [source("guide/a.md", `# A\n\n${LICENSE}\n`), source("b.md", `${LICENSE}\n`)]
+    const result = removeRepeatedBlocks(sources, REFERENCE)
+    const link = inlines(result.sources[1].tree.children[0])[1] as Link
+    expect(link).toMatchObject({ type: "link", children: [{ type: "text", value: "a" }] })
+
+    const bookmarks = new BookmarkTable()
+    for (const { path, tree } of result.sources) {
+      bookmarks.addFile(path, tree)
+    }
+    const target = bookmarks.resolve("docs/b.md", link.url, "docs")
+    expect(target).toEqual({ type: "bookmark", name: bookmarks.fileBookmark("docs/guide/a.md") })
+  })
+
+  it("only names a first file from another source", () => {
+    const sources = [source("a.md", `${LICENSE}\n`, "api"), source("b.md", `${LICENSE}\n`)]
+    const [reference] = removeRepeatedBlocks(sources, REFERENCE).sources[1].tree.children
+    expect(reference).toEqual({
+      type: "paragraph",
+      children: [
+        { type: "text", value: "See " },
+        { type: "text", value: "a" },
+        { type: "text", value: " above." },
+      ],
+    })
+  })
+})
@@ -0,0 +1,116 @@
+import { inlineText, type BlockNode, type Document, type InlineNode } from "@/lib/markdown/ast"
+
+// Finds blocks that several files share, such as license blurbs or "generated by" footers, and keeps
+// only their first occurrence in the combined document.
+
+// "remove" drops later copies; "reference" puts a line pointing to the file with the first one
+export type RepeatedBlockMode = "off" | "remove" | "reference"
+
+export interface RepeatedBlockOptions {
+  mode: RepeatedBlockMode
+  // Shown in place of later copies in "reference" mode; {file} becomes a link to the file with the first
+  reference: string
+}
+
+export const DEFAULT_REPEATED_BLOCK_OPTIONS: RepeatedBlockOptions = { mode: "off", reference: "See {file} above." }
+
+// Blocks with less text than this are left alone, since short lines like "Yes." repeat by chance
+const MIN_TEXT_LENGTH = 40
+
+interface Source {
+  name: string
+  path: string
+  // Directory of the source the file came from, which links can't leave
+  source: string
+  tree: Document
+}
+
+function blockText(block: BlockNode): string {
+  switch (block.type) {
+    case "paragraph":
+    case "heading":
+      return inlineText(block.children)
+    case "code_block":
+    case "html_block":
+      return block.value
+    case "blockquote":
+    case "admonition":
+      return block.children.map(blockText).join(" ")
+    case "list":
+      return block.children.map((item) => item.children.map(blockText).join(" ")).join(" ")
+    case "table":
+      return block.children.map((row) => row.children.map((cell) => inlineText(cell.children)).join(" ")).join(" ")
+    case "thematic_break":
+      return ""
+  }
+}
+
+// Key of a block that may be deduplicated, or null for headings, rules and short blocks. Blocks only
+// match when their formatting matches too.
+function blockKey(block: BlockNode): string | null {
+  if (block.type === "heading" || blockText(block).replace(/\s+/g, " ").trim().length < MIN_TEXT_LENGTH) {
+    return null
+  }
+  return JSON.stringify(block)
+}
+
+// The reference paragraph for a copy in the file from, linking to the file with the first copy by its
+// path from the source's root so the link resolves to its bookmark. A file from another source can't
+// be reached by a link, so it's only named.
+function referenceParagraph(template: string, first: Source, from: Source): BlockNode {
+  const relative = first.source ? first.path.slice(first.source.length + 1) : first.path
+  const url = "/" + relative.split("/").map(encodeURIComponent).join("/")
+  const name: InlineNode = { type: "text", value: first.name }
+  const children: InlineNode[] = []
+  template.split("{file}").forEach((text, i) => {
+    if (i > 0) {
+      children.push(first.source === from.source ? { type: "link", url, title: "", children: [name] } : name)
+    }
+    if (text) {
+      children.push({ type: "text", value: text })
+    }
+  })
+  return { type: "paragraph", children }
+}
+
+// Replaces top-level blocks that already appeared in an earlier file. Copies within the file where a
+// block first appears are kept, and a run of copies from the same file gets a single reference.
+// Returns the sources with new trees, and how many blocks were removed from each file that had any.
+export function removeRepeatedBlocks<T extends Source>(
+  sources: T[],
+  options: RepeatedBlockOptions,
+): { sources: T[]; removed: { path: string; count: number }[] } {
+  if (options.mode === "off") {
+    return { sources, removed: [] }
+  }
+
+  const firstSeen = new Map<string, T>()
+  const removed: { path: string; count: number }[] = []
+  const deduplicated = sources.map((source) => {
+    const children: BlockNode[] = []
+    let count = 0
+    let referenced: T | null = null
+    for (const block of source.tree.children) {
+      const key = blockKey(block)
+      const first = key === null ? undefined : firstSeen.get(key)
+      if (key !== null && !first) {
+        firstSeen.set(key, source)
+      }
+      if (!first || first === source) {
+        children.push(block)
+        referenced = null
+        continue
+      }
+      count++
+      if (options.mode === "reference" && options.reference.trim() && referenced !== first) {
+        children.push(referenceParagraph(options.reference.trim(), first, source))
+      }
+      referenced = first
+    }
+    if (count > 0) {
+      removed.push({ path: source.path, count })
+    }
+    return { ...source, tree: { ...source.tree, children } }
+  })
+  return { sources: deduplicated, removed }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_SIMILARITY_THRESHOLD, findNearDuplicates } from "./similarity"
+
+// Text of distinct words, so every shingle is different
+function words(prefix: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `${prefix}${i}`)
+}
+
+// The words with every word at the given positions replaced
+function changed(text: string[], positions: number[], tag: string): string[] {
+  return text.map((word, i) => (positions.includes(i) ? `${tag}${i}` : word))
+}
+
+function file(name: string, text: string[]) {
+  return { name, content: text.join(" ") }
+}
+
+describe("findNearDuplicates", () => {
+  it("groups files that differ only by a date line", () => {
+    const body = words("body", 200).join(" ")
+    const files = [
+      { name: "a.md", content: `# Release notes\n\nUpdated 2024-01-05\n\n${body}\n` },
+      { name: "b.md", content: `# Release notes\n\nUpdated 2024-03-17\n\n${body}\n` },
+    ]
+    const groups = findNearDuplicates(files)
+    expect(groups).toHaveLength(1)
+    expect(groups[0].files).toEqual(files)
+    expect(groups[0].similarity[0]).toBe(1)
+    expect(groups[0].similarity[1]).toBeGreaterThanOrEqual(DEFAULT_SIMILARITY_THRESHOLD)
+  })
+
+  it("leaves unrelated files alone", () => {
+    expect(findNearDuplicates([file("a.md", words("a", 200)), file("b.md", words("b", 200))])).toEqual([])
+  })
+
+  it("chains files similar through another and keeps the first file first", () => {
+    const first = words("w", 400)
+    const middle = changed(first, [20, 100, 180, 260, 340, 380], "m")
+    const last = changed(middle, [60, 140, 220, 300, 360, 390], "l")
+    const files = [file("first.md", first), file("other.md", words("x", 400)), file("last.md", last)]
+    files.push(file("middle.md", middle))
+
+    // The ends aren't similar enough by themselves
+    expect(findNearDuplicates([files[0], files[2]])).toEqual([])
+    const groups = findNearDuplicates(files)
+    expect(groups).toHaveLength(1)
+    expect(groups[0].files.map((entry) => entry.name)).toEqual(["first.md", "last.md", "middle.md"])
+  })
+})
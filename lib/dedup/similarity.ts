@@ -0,0 +1,141 @@
+// Finds files whose content is nearly the same, such as copies that differ only by a date line or
+// trailing whitespace. Each file is reduced to the set of word sequences ("shingles") it contains,
+// and a MinHash signature of that set estimates how much two files share (their Jaccard similarity)
+// without comparing the full texts. Locality-sensitive hashing over bands of the signature picks the
+// pairs worth comparing, so large selections don't need every pair checked.
+
+// Words per shingle
+const SHINGLE_SIZE = 5
+// Signature length, split into bands of rows; files sharing every row of any band become candidates
+const BANDS = 32
+const ROWS = 4
+const SIGNATURE_SIZE = BANDS * ROWS
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.8
+
+export interface DuplicateGroup<T> {
+  // In their original order; the first is the one kept unless the user picks another
+  files: T[]
+  // Estimated similarity of each file to the first, from 0 to 1
+  similarity: number[]
+}
+
+// FNV-1a
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// MurmurHash3's finalizer, which spreads the bits of a 32-bit value
+function mix(value: number): number {
+  let hash = value
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b)
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35)
+  return (hash ^ (hash >>> 16)) >>> 0
+}
+
+// One seed per signature row, so each row is the minimum under a different hash function
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix(i + 1))
+
+// Hashes of the file's shingles. Case and whitespace are ignored; a file shorter than a shingle is
+// a single shingle of everything in it.
+function shingles(content: string): Set<number> {
+  const words = content.toLowerCase().split(/\s+/).filter(Boolean)
+  const hashes = new Set<number>()
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    hashes.add(hashString(words.slice(i, i + SHINGLE_SIZE).join(" ")))
+  }
+  if (hashes.size === 0) {
+    hashes.add(hashString(words.join(" ")))
+  }
+  return hashes
+}
+
+function signature(content: string): Uint32Array {
+  const minimums = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff)
+  for (const shingle of shingles(content)) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const hash = mix(shingle ^ SEEDS[i])
+      if (hash < minimums[i]) {
+        minimums[i] = hash
+      }
+    }
+  }
+  return minimums
+}
+
+// The share of rows two signatures agree on, which estimates the Jaccard similarity of the files
+function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let same = 0
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (a[i] === b[i]) {
+      same++
+    }
+  }
+  return same / SIGNATURE_SIZE
+}
+
+// Groups files that are at least `threshold` similar to one another, directly or through a chain of
+// similar files. Files without a near-duplicate aren't returned.
+export function findNearDuplicates<T extends { content: string }>(
+  files: T[],
+  threshold = DEFAULT_SIMILARITY_THRESHOLD,
+): DuplicateGroup<T>[] {
+  const signatures = files.map((file) => signature(file.content))
+
+  // Union-find over file indexes; the root of each set is its first file
+  const parents = files.map((_, i) => i)
+  const find = (i: number): number => (parents[i] === i ? i : (parents[i] = find(parents[i])))
+  const union = (a: number, b: number) => {
+    const [rootA, rootB] = [find(a), find(b)]
+    parents[Math.max(rootA, rootB)] = Math.min(rootA, rootB)
+  }
+
+  const compared = new Set<string>()
+  for (let band = 0; band < BANDS; band++) {
+    const buckets = new Map<string, number[]>()
+    signatures.forEach((rows, i) => {
+      const key = Array.from(rows.subarray(band * ROWS, (band + 1) * ROWS)).join(",")
+      const bucket = buckets.get(key)
+      if (bucket) {
+        bucket.push(i)
+      } else {
+        buckets.set(key, [i])
+      }
+    })
+    for (const bucket of buckets.values()) {
+      for (let a = 0; a < bucket.length; a++) {
+        for (let b = a + 1; b < bucket.length; b++) {
+          const pair = `${bucket[a]}:${bucket[b]}`
+          if (compared.has(pair) || find(bucket[a]) === find(bucket[b])) {
+            continue
+          }
+          compared.add(pair)
+          if (estimateSimilarity(signatures[bucket[a]], signatures[bucket[b]]) >= threshold) {
+            union(bucket[a], bucket[b])
+          }
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>()
+  files.forEach((_, i) => {
+    const root = find(i)
+    const group = groups.get(root)
+    if (group) {
+      group.push(i)
+    } else {
+      groups.set(root, [i])
+    }
+  })
+  return Array.from(groups.values())
+    .filter((indexes) => indexes.length > 1)
+    .map((indexes) => ({
+      files: indexes.map((i) => files[i]),
+      similarity: indexes.map((i) => estimateSimilarity(signatures[indexes[0]], signatures[i])),
+    }))
+}
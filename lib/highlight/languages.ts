@@ -0,0 +1,215 @@
+import type { TokenType } from "./tokenize"
+
+export interface Rule {
+  type: TokenType
+  // Sticky pattern, matched at the current position only
+  pattern: RegExp
+}
+
+export interface Grammar {
+  name: string
+  // Info-string language tags the grammar is used for, lowercase
+  aliases: string[]
+  rules: Rule[]
+}
+
+function rule(type: TokenType, pattern: RegExp): Rule {
+  return { type, pattern: new RegExp(pattern.source, pattern.flags + "y") }
+}
+
+function words(type: TokenType, list: string, flags = ""): Rule {
+  return rule(type, new RegExp(`\\b(?:${list.trim().split(/\s+/).join("|")})\\b`, flags))
+}
+
+const C_LINE_COMMENT = rule("comment", /\/\/.*/)
+const C_BLOCK_COMMENT = rule("comment", /\/\*[\s\S]*?(?:\*\/|$)/)
+const HASH_COMMENT = rule("comment", /#.*/)
+const DOUBLE_QUOTED = rule("string", /"(?:[^"\\\n]|\\.)*"?/)
+const SINGLE_QUOTED = rule("string", /'(?:[^'\\\n]|\\.)*'?/)
+const NUMBER = rule("number", /\b(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?)[nLlfFdDjJ]?\b/)
+const FUNCTION_CALL = rule("function", /[A-Za-z_$][\w$]*(?=\s*\()/)
+const CAPITALIZED_TYPE = rule("type", /\b[A-Z][\w$]*\b/)
+// Consumes the rest of an identifier so keywords never match inside longer names
+const IDENTIFIER = rule("plain", /[A-Za-z_$][\w$]*/)
+
+const javascript: Grammar = {
+  name: "JavaScript / TypeScript",
+  aliases: ["js", "jsx", "mjs", "cjs", "javascript", "ts", "tsx", "mts", "cts", "typescript"],
+  rules: [
+    C_LINE_COMMENT,
+    C_BLOCK_COMMENT,
+    rule("string", /`(?:[^`\\]|\\[\s\S])*`?/),
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    NUMBER,
+    rule("meta", /@[A-Za-z_$][\w$]*/),
+    words(
+      "keyword",
+      `abstract as async await break case catch class const continue debugger declare default delete do else enum
+       export extends finally for from function get if implements import in instanceof interface keyof let namespace
+       new of private protected public readonly return satisfies set static super switch this throw try type typeof
+       var void while with yield`,
+    ),
+    words("literal", "true false null undefined NaN Infinity"),
+    words("type", "string number boolean any unknown never object symbol bigint"),
+    FUNCTION_CALL,
+    CAPITALIZED_TYPE,
+    IDENTIFIER,
+  ],
+}
+
+const python: Grammar = {
+  name: "Python",
+  aliases: ["py", "python", "python3", "py3", "gyp"],
+  rules: [
+    HASH_COMMENT,
+    rule("string", /(?:[rRbBuUfF]{1,2})?(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/),
+    rule("string", /(?:[rRbBuUfF]{1,2})?(?:"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?)/),
+    NUMBER,
+    rule("meta", /@[A-Za-z_][\w.]*/),
+    words(
+      "keyword",
+      `and as assert async await break case class continue def del elif else except finally for from global if
+       import in is lambda match nonlocal not or pass raise return try while with yield`,
+    ),
+    words("literal", "True False None self cls"),
+    FUNCTION_CALL,
+    CAPITALIZED_TYPE,
+    IDENTIFIER,
+  ],
+}
+
+const bash: Grammar = {
+  name: "Bash",
+  aliases: ["sh", "bash", "shell", "zsh", "console", "shellscript"],
+  rules: [
+    // A # only starts a comment at the beginning of a word; words consume any # inside them
+    HASH_COMMENT,
+    DOUBLE_QUOTED,
+    rule("string", /'[^']*'?/),
+    rule("variable", /\$(?:\{[^}\n]*\}?|[A-Za-z_]\w*|[@*#?$!0-9-])/),
+    words(
+      "keyword",
+      `if then else elif fi case esac for while until do done in function select return exit break continue local
+       export readonly declare set unset source alias`,
+    ),
+    words("function", "echo cd printf read test eval exec shift trap pwd mkdir rm cp mv cat grep sed awk sudo"),
+    rule("number", /\b\d+\b/),
+    rule("plain", /[^\s#'"$`;|&<>(){}][^\s'"$`;|&<>(){}]*/),
+  ],
+}
+
+const json: Grammar = {
+  name: "JSON",
+  aliases: ["json", "jsonc", "json5"],
+  rules: [
+    C_LINE_COMMENT,
+    C_BLOCK_COMMENT,
+    rule("property", /"(?:[^"\\\n]|\\.)*"(?=\s*:)/),
+    DOUBLE_QUOTED,
+    rule("number", /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/),
+    words("literal", "true false null"),
+  ],
+}
+
+const yaml: Grammar = {
+  name: "YAML",
+  aliases: ["yaml", "yml"],
+  rules: [
+    HASH_COMMENT,
+    rule("meta", /^(?:---|\.\.\.)(?=\s|$)/m),
+    rule("property", /[^\s#:'"\-[\]{},][^\n:#]*?(?=\s*:(?:\s|$))/),
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    rule("variable", /[&*][\w-]+/),
+    rule("meta", /![\w!]*/),
+    rule("literal", /\b(?:true|false|null|yes|no|on|off)\b|~/),
+    rule("number", /[-+]?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/),
+    // Plain scalars, including any # that isn't preceded by whitespace
+    rule("plain", /[^\s#'":,[\]{}][^\s:,[\]{}]*/),
+  ],
+}
+
+const sql: Grammar = {
+  name: "SQL",
+  aliases: ["sql", "mysql", "pgsql", "postgresql", "postgres", "sqlite", "plsql", "tsql"],
+  rules: [
+    rule("comment", /--.*/),
+    C_BLOCK_COMMENT,
+    rule("string", /'(?:[^']|'')*'?/),
+    rule("property", /"(?:[^"]|"")*"?|`[^`]*`?/),
+    NUMBER,
+    words(
+      "keyword",
+      `select from where insert into values update set delete create table alter drop index join left right inner
+       outer full cross on group by order having limit offset as and or not is in exists between like ilike distinct
+       union all case when then else end primary key foreign references default unique check constraint view begin
+       commit rollback transaction returning with asc desc if replace grant revoke truncate database schema`,
+      "i",
+    ),
+    words("literal", "null true false", "i"),
+    words(
+      "type",
+      `int integer smallint bigint serial bigserial varchar char text boolean bool date time timestamp timestamptz
+       interval numeric decimal float real double uuid json jsonb blob`,
+      "i",
+    ),
+    FUNCTION_CALL,
+    IDENTIFIER,
+  ],
+}
+
+const go: Grammar = {
+  name: "Go",
+  aliases: ["go", "golang"],
+  rules: [
+    C_LINE_COMMENT,
+    C_BLOCK_COMMENT,
+    DOUBLE_QUOTED,
+    rule("string", /`[^`]*`?/),
+    rule("string", /'(?:[^'\\\n]|\\.)+'/),
+    NUMBER,
+    words(
+      "keyword",
+      `break case chan const continue default defer else fallthrough for func go goto if import interface map
+       package range return select struct switch type var`,
+    ),
+    words("literal", "true false nil iota"),
+    words(
+      "type",
+      `bool byte complex64 complex128 error float32 float64 int int8 int16 int32 int64 rune string uint uint8
+       uint16 uint32 uint64 uintptr any`,
+    ),
+    FUNCTION_CALL,
+    CAPITALIZED_TYPE,
+    IDENTIFIER,
+  ],
+}
+
+const java: Grammar = {
+  name: "Java",
+  aliases: ["java"],
+  rules: [
+    C_LINE_COMMENT,
+    C_BLOCK_COMMENT,
+    rule("string", /"""[\s\S]*?(?:"""|$)/),
+    DOUBLE_QUOTED,
+    rule("string", /'(?:[^'\\\n]|\\.)+'/),
+    NUMBER,
+    rule("meta", /@[A-Za-z_][\w.]*/),
+    words(
+      "keyword",
+      `abstract assert break case catch class const continue default do else enum extends final finally for goto if
+       implements import instanceof interface native new non-sealed package permits private protected public record
+       return sealed static strictfp super switch synchronized this throw throws transient try var volatile while
+       yield`,
+    ),
+    words("literal", "true false null"),
+    words("type", "boolean byte char double float int long short void"),
+    FUNCTION_CALL,
+    CAPITALIZED_TYPE,
+    IDENTIFIER,
+  ],
+}
+
+export const GRAMMARS: Grammar[] = [javascript, python, bash, json, yaml, sql, go, java]
@@ -0,0 +1,67 @@
+import type { TokenType } from "./tokenize"
+
+export type CodeThemeName = "github" | "solarized-light" | "one-dark"
+
+export interface CodeTheme {
+  label: string
+  background: string
+  foreground: string
+  // Token types without an entry use the foreground color
+  colors: Partial<Record<TokenType, string>>
+}
+
+export const CODE_THEMES: Record<CodeThemeName, CodeTheme> = {
+  github: {
+    label: "GitHub",
+    background: "#f6f8fa",
+    foreground: "#24292f",
+    colors: {
+      comment: "#6e7781",
+      string: "#0a3069",
+      number: "#0550ae",
+      keyword: "#cf222e",
+      literal: "#0550ae",
+      type: "#953800",
+      function: "#8250df",
+      property: "#0550ae",
+      variable: "#953800",
+      meta: "#8250df",
+    },
+  },
+  "solarized-light": {
+    label: "Solarized Light",
+    background: "#fdf6e3",
+    foreground: "#657b83",
+    colors: {
+      comment: "#93a1a1",
+      string: "#2aa198",
+      number: "#d33682",
+      keyword: "#859900",
+      literal: "#cb4b16",
+      type: "#b58900",
+      function: "#268bd2",
+      property: "#268bd2",
+      variable: "#6c71c4",
+      meta: "#cb4b16",
+    },
+  },
+  "one-dark": {
+    label: "One Dark",
+    background: "#282c34",
+    foreground: "#abb2bf",
+    colors: {
+      comment: "#7f848e",
+      string: "#98c379",
+      number: "#d19a66",
+      keyword: "#c678dd",
+      literal: "#d19a66",
+      type: "#e5c07b",
+      function: "#61afef",
+      property: "#e06c75",
+      variable: "#e06c75",
+      meta: "#56b6c2",
+    },
+  },
+}
+
+export const DEFAULT_CODE_THEME: CodeThemeName = "github"
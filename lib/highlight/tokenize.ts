@@ -0,0 +1,66 @@
+import { GRAMMARS, type Grammar } from "./languages"
+
+export type TokenType =
+  | "comment"
+  | "string"
+  | "number"
+  | "keyword"
+  | "literal"
+  | "type"
+  | "function"
+  | "property"
+  | "variable"
+  | "meta"
+  | "plain"
+
+export interface Token {
+  type: TokenType
+  value: string
+}
+
+const grammarsByAlias = new Map<string, Grammar>()
+for (const grammar of GRAMMARS) {
+  for (const alias of grammar.aliases) {
+    grammarsByAlias.set(alias, grammar)
+  }
+}
+
+// Finds the grammar for a fenced code block's info string ("ts", "python title=x.py", ...)
+export function findGrammar(info: string): Grammar | null {
+  const language = info.trim().split(/\s+/)[0]?.toLowerCase() ?? ""
+  return grammarsByAlias.get(language) ?? null
+}
+
+// Splits code into highlighted tokens. Rules are tried in order at every position; text no rule
+// matches is collected into plain tokens.
+export function tokenize(code: string, grammar: Grammar): Token[] {
+  const tokens: Token[] = []
+  const push = (type: TokenType, value: string) => {
+    const last = tokens[tokens.length - 1]
+    if (last && last.type === type) {
+      last.value += value
+    } else {
+      tokens.push({ type, value })
+    }
+  }
+
+  let pos = 0
+  while (pos < code.length) {
+    let matched = false
+    for (const rule of grammar.rules) {
+      rule.pattern.lastIndex = pos
+      const match = rule.pattern.exec(code)
+      if (match && match[0].length > 0) {
+        push(rule.type, match[0])
+        pos += match[0].length
+        matched = true
+        break
+      }
+    }
+    if (!matched) {
+      push("plain", code[pos])
+      pos += 1
+    }
+  }
+  return tokens
+}
@@ -0,0 +1,136 @@
+import { SCREEN_DPI, readImage } from "@/lib/rtf/images"
+
+export interface ImageConversionOptions {
+  // Resolution SVGs are rasterized at
+  dpi: number
+  // Longest side in pixels; larger images are downscaled
+  maxDimension: number
+  // Images still larger than this in bytes are re-encoded as JPEG, and dropped if that doesn't help
+  maxBytes: number
+}
+
+export const DEFAULT_IMAGE_CONVERSION_OPTIONS: ImageConversionOptions = {
+  dpi: 192,
+  maxDimension: 2000,
+  maxBytes: 2 * 1024 * 1024,
+}
+
+export interface PreparedImage {
+  // PNG or JPEG bytes
+  data: Uint8Array
+  dpi: number
+}
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement
+
+// MIME type for the formats that need rasterizing before they can be embedded
+function rasterMimeType(path: string, data: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...Array.from(data.subarray(start, end)))
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+    return "image/webp"
+  }
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") {
+    return "image/gif"
+  }
+  if (/\.svg$/i.test(path) || /<svg[\s>]/i.test(ascii(0, 1024))) {
+    return "image/svg+xml"
+  }
+  return null
+}
+
+async function loadImage(data: Uint8Array, type: string): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(new Blob([data], { type }))
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+    return image
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+function createCanvas(width: number, height: number): Canvas {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height)
+  }
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+async function encode(canvas: Canvas, type: "image/png" | "image/jpeg"): Promise<Uint8Array> {
+  const blob =
+    canvas instanceof HTMLCanvasElement
+      ? await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.85))
+      : await canvas.convertToBlob({ type, quality: 0.85 })
+  if (!blob) {
+    throw new Error("could not be encoded")
+  }
+  return new Uint8Array(await blob.arrayBuffer())
+}
+
+// Draws the image onto a canvas of the given size; JPEG output has no alpha, so it gets a white background
+function draw(image: HTMLImageElement, width: number, height: number, opaque: boolean): Canvas {
+  const canvas = createCanvas(width, height)
+  const context = canvas.getContext("2d") as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null
+  if (!context) {
+    throw new Error("could not be drawn: canvas is not available")
+  }
+  if (opaque) {
+    context.fillStyle = "#ffffff"
+    context.fillRect(0, 0, width, height)
+  }
+  context.drawImage(image, 0, 0, width, height)
+  return canvas
+}
+
+// Turns an archive image into PNG or JPEG bytes that can be embedded in RTF. PNG and JPEG files
+// within the limits are passed through; SVG, WebP and GIF (first frame) are rasterized on a canvas,
+// as are PNG and JPEG files that need downscaling. Throws with the reason when the image can't be used.
+export async function prepareImage(
+  path: string,
+  data: Uint8Array,
+  options = DEFAULT_IMAGE_CONVERSION_OPTIONS,
+): Promise<PreparedImage> {
+  const native = readImage(data)
+  if (native && Math.max(native.width, native.height) <= options.maxDimension && data.length <= options.maxBytes) {
+    return { data, dpi: SCREEN_DPI }
+  }
+
+  const type = native ? `image/${native.format}` : rasterMimeType(path, data)
+  if (!type) {
+    throw new Error("is not a supported image format")
+  }
+  let image: HTMLImageElement
+  try {
+    image = await loadImage(data, type)
+  } catch {
+    throw new Error("could not be decoded")
+  }
+
+  // SVGs without an intrinsic size report zero; browsers lay those out at 300x150
+  const naturalWidth = image.naturalWidth || 300
+  const naturalHeight = image.naturalHeight || 150
+  // Vector images are drawn at the requested resolution, bitmaps at their own
+  let scale = type === "image/svg+xml" ? options.dpi / SCREEN_DPI : 1
+  scale = Math.min(scale, options.maxDimension / Math.max(naturalWidth, naturalHeight))
+  const width = Math.max(1, Math.round(naturalWidth * scale))
+  const height = Math.max(1, Math.round(naturalHeight * scale))
+  // Keeps the image at its natural size on the page whatever its pixel count
+  const dpi = SCREEN_DPI * (width / naturalWidth)
+
+  // Photos stay JPEG; PNG would only make them bigger
+  if (native?.format !== "jpeg") {
+    const png = await encode(draw(image, width, height, false), "image/png")
+    if (png.length <= options.maxBytes) {
+      return { data: png, dpi }
+    }
+  }
+  const jpeg = await encode(draw(image, width, height, true), "image/jpeg")
+  if (jpeg.length <= options.maxBytes) {
+    return { data: jpeg, dpi }
+  }
+  throw new Error(`is larger than the ${Math.round(options.maxBytes / 1024)} KB image size limit`)
+}
@@ -0,0 +1,208 @@
+// Typed document tree produced by the markdown parser and consumed by the RTF renderer.
+
+export interface Document {
+  type: "document"
+  children: BlockNode[]
+}
+
+export type BlockNode =
+  | Paragraph
+  | Heading
+  | ThematicBreak
+  | BlockQuote
+  | Admonition
+  | List
+  | CodeBlock
+  | HtmlBlock
+  | Table
+
+export interface Paragraph {
+  type: "paragraph"
+  children: InlineNode[]
+}
+
+export interface Heading {
+  type: "heading"
+  level: 1 | 2 | 3 | 4 | 5 | 6
+  setext: boolean
+  children: InlineNode[]
+}
+
+export interface ThematicBreak {
+  type: "thematic_break"
+}
+
+export interface BlockQuote {
+  type: "blockquote"
+  children: BlockNode[]
+}
+
+// A callout box: GitHub alerts (> [!NOTE]) and MkDocs admonitions (!!! note "Title")
+export interface Admonition {
+  type: "admonition"
+  // Lowercase kind as written, e.g. "note", "warning" or "tip"
+  kind: string
+  // Custom title; null uses the kind's default title and "" shows none
+  title: string | null
+  children: BlockNode[]
+}
+
+export interface List {
+  type: "list"
+  ordered: boolean
+  start: number
+  tight: boolean
+  // "-", "+" or "*" for bullet lists, "." or ")" for ordered lists
+  marker: string
+  children: ListItem[]
+}
+
+export interface ListItem {
+  type: "list_item"
+  children: BlockNode[]
+}
+
+export interface CodeBlock {
+  type: "code_block"
+  fenced: boolean
+  info: string
+  value: string
+}
+
+export interface HtmlBlock {
+  type: "html_block"
+  value: string
+}
+
+// GitHub-flavored pipe table. The first row is the header row.
+export interface Table {
+  type: "table"
+  align: TableAlignment[]
+  children: TableRow[]
+}
+
+export type TableAlignment = "left" | "center" | "right" | null
+
+export interface TableRow {
+  type: "table_row"
+  header: boolean
+  children: TableCell[]
+}
+
+export interface TableCell {
+  type: "table_cell"
+  children: InlineNode[]
+}
+
+export type InlineNode = Text | Emphasis | Strong | CodeSpan | Link | Image | SoftBreak | HardBreak | HtmlInline
+
+export interface Text {
+  type: "text"
+  value: string
+}
+
+export interface Emphasis {
+  type: "emphasis"
+  children: InlineNode[]
+}
+
+export interface Strong {
+  type: "strong"
+  children: InlineNode[]
+}
+
+export interface CodeSpan {
+  type: "code_span"
+  value: string
+}
+
+export interface Link {
+  type: "link"
+  url: string
+  title: string
+  children: InlineNode[]
+}
+
+export interface Image {
+  type: "image"
+  url: string
+  title: string
+  children: InlineNode[]
+}
+
+export interface SoftBreak {
+  type: "soft_break"
+}
+
+export interface HardBreak {
+  type: "hard_break"
+}
+
+export interface HtmlInline {
+  type: "html_inline"
+  value: string
+}
+
+// Plain-text content of an inline run, as used for image alt text and heading slugs
+export function inlineText(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+        case "code_span":
+          return node.value
+        case "soft_break":
+        case "hard_break":
+          return " "
+        case "html_inline":
+          return ""
+        default:
+          return inlineText(node.children)
+      }
+    })
+    .join("")
+}
+
+// Calls visit for every inline node in the blocks, depth first, including inlines nested in links and emphasis
+export function visitInlines(blocks: BlockNode[], visit: (node: InlineNode) => void) {
+  const walk = (nodes: InlineNode[]) => {
+    for (const node of nodes) {
+      visit(node)
+      if ("children" in node) {
+        walk(node.children)
+      }
+    }
+  }
+  for (const block of blocks) {
+    switch (block.type) {
+      case "paragraph":
+      case "heading":
+        walk(block.children)
+        break
+      case "blockquote":
+      case "admonition":
+        visitInlines(block.children, visit)
+        break
+      case "list":
+        block.children.forEach((item) => visitInlines(item.children, visit))
+        break
+      case "table":
+        block.children.forEach((row) => row.children.forEach((cell) => walk(cell.children)))
+        break
+    }
+  }
+}
+
+// Headings in document order, including those nested in block quotes, admonitions and lists
+export function collectHeadings(blocks: BlockNode[], headings: Heading[] = []): Heading[] {
+  for (const block of blocks) {
+    if (block.type === "heading") {
+      headings.push(block)
+    } else if (block.type === "blockquote" || block.type === "admonition") {
+      collectHeadings(block.children, headings)
+    } else if (block.type === "list") {
+      block.children.forEach((item) => collectHeadings(item.children, headings))
+    }
+  }
+  return headings
+}
@@ -0,0 +1,764 @@
+import type { TableAlignment } from "./ast"
+import { Node, type ListData, type NodeType } from "./node"
+import { CLOSETAG, OPENTAG, isBlank, isSpaceOrTab, unescapeString } from "./common"
+
+const CODE_INDENT = 4
+
+const reHtmlBlockOpen = [
+  /./,
+  /^<(?:script|pre|textarea|style)(?:\s|>|$)/i,
+  /^<!--/,
+  /^<[?]/,
+  /^<![A-Za-z]/,
+  /^<!\[CDATA\[/,
+  /^<[/]?(?:address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[123456]|head|header|hr|html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|search|section|summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul)(?:\s|[/]?[>]|$)/i,
+  new RegExp(`^(?:${OPENTAG}|${CLOSETAG})\\s*$`, "i"),
+]
+
+const reHtmlBlockClose = [/./, /<\/(?:script|pre|textarea|style)>/i, /-->/, /\?>/, />/, /\]\]>/]
+
+const reThematicBreak = /^(?:\*[ \t]*){3,}$|^(?:_[ \t]*){3,}$|^(?:-[ \t]*){3,}$/
+const reMaybeSpecial = /^[#`~*+_=<>0-9|:!?-]/
+const reNonSpace = /[^ \t\f\v\r\n]/
+const reBulletListMarker = /^[*+-]/
+const reOrderedListMarker = /^(\d{1,9})([.)])/
+const reATXHeadingMarker = /^#{1,6}(?:[ \t]+|$)/
+const reCodeFence = /^`{3,}(?!.*`)|^~{3,}/
+const reClosingCodeFence = /^(?:`{3,}|~{3,})(?=[ \t]*$)/
+const reSetextHeadingLine = /^(?:=+|-+)[ \t]*$/
+const reLineEnding = /\r\n|\n|\r/
+const reTableDelimiterRow = /^\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/
+// MkDocs admonition: !!! kind "Optional title", or ??? / ???+ for collapsible ones
+const reAdmonitionStart = /^(?:!!!|\?\?\?\+?)[ \t]+([A-Za-z][\w-]*)(?:[ \t]+"((?:[^"\\]|\\.)*)")?[ \t]*$/
+// Block starts that end a table, checked before a line is taken as another table row
+const reTableInterrupt = /^(?:>|#{1,6}(?:[ \t]|$)|`{3,}|~{3,})/
+
+// Result of trying to continue an open block with the current line
+enum Continuation {
+  Matched,
+  NotMatched,
+  LineConsumed,
+}
+
+// Result of trying to start a new block at the current position
+enum Start {
+  None,
+  Container,
+  Leaf,
+}
+
+function acceptsLines(type: NodeType): boolean {
+  return type === "paragraph" || type === "code_block" || type === "html_block" || type === "table"
+}
+
+function canContain(parent: NodeType, child: NodeType): boolean {
+  switch (parent) {
+    case "document":
+    case "blockquote":
+    case "admonition":
+    case "list_item":
+      return child !== "list_item"
+    case "list":
+      return child === "list_item"
+    default:
+      return false
+  }
+}
+
+function listsMatch(list: ListData, item: ListData): boolean {
+  return list.type === item.type && list.delimiter === item.delimiter && list.bulletChar === item.bulletChar
+}
+
+// Splits a table row into trimmed cells on unescaped pipes; leading and trailing pipes are optional
+function splitTableRow(line: string): string[] {
+  let row = line.trim()
+  if (row.startsWith("|")) {
+    row = row.slice(1)
+  }
+  if (row.endsWith("|") && !row.endsWith("\\|")) {
+    row = row.slice(0, -1)
+  }
+  const cells: string[] = []
+  let cell = ""
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === "\\" && row[i + 1] === "|") {
+      cell += "|"
+      i++
+    } else if (row[i] === "|") {
+      cells.push(cell.trim())
+      cell = ""
+    } else {
+      cell += row[i]
+    }
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+function parseAlignment(delimiter: string): TableAlignment {
+  const left = delimiter.startsWith(":")
+  const right = delimiter.endsWith(":")
+  if (left && right) {
+    return "center"
+  }
+  return left ? "left" : right ? "right" : null
+}
+
+// Whether a block ends with a blank line, descending into the last child of lists and items
+function endsWithBlankLine(block: Node | null): boolean {
+  while (block) {
+    if (block.lastLineBlank) {
+      return true
+    }
+    const descend = !block.lastLineChecked && (block.type === "list" || block.type === "list_item")
+    block.lastLineChecked = true
+    if (!descend) {
+      break
+    }
+    block = block.lastChild
+  }
+  return false
+}
+
+// Builds the block structure of a document line by line, following the two-phase
+// strategy described in the CommonMark spec appendix. Paragraph and heading text is
+// collected in `stringContent`; inline parsing happens afterwards.
+export class BlockParser {
+  private doc = new Node("document")
+  private tip: Node = this.doc
+  private oldTip: Node = this.doc
+  private lastMatchedContainer: Node = this.doc
+  private currentLine = ""
+  private lineNumber = 0
+  private offset = 0
+  private column = 0
+  private nextNonspace = 0
+  private nextNonspaceColumn = 0
+  private indent = 0
+  private indented = false
+  private blank = false
+  private partiallyConsumedTab = false
+  private allClosed = true
+
+  // Hook for extensions that need to inspect a paragraph when it is closed (e.g. link reference definitions)
+  constructor(private readonly onParagraphFinalize?: (block: Node) => void) {}
+
+  parse(input: string): Node {
+    const lines = input.split(reLineEnding)
+    if (input.length > 0 && lines[lines.length - 1] === "") {
+      lines.pop()
+    }
+    for (const line of lines) {
+      this.incorporateLine(line)
+    }
+    while (this.tip !== this.doc) {
+      this.finalize(this.tip)
+    }
+    this.finalize(this.doc)
+    return this.doc
+  }
+
+  private findNextNonspace() {
+    const line = this.currentLine
+    let i = this.offset
+    let cols = this.column
+    let c: string | undefined
+    while ((c = line[i]) !== undefined) {
+      if (c === " ") {
+        i++
+        cols++
+      } else if (c === "\t") {
+        i++
+        cols += 4 - (cols % 4)
+      } else {
+        break
+      }
+    }
+    this.blank = c === undefined || c === "\n" || c === "\r"
+    this.nextNonspace = i
+    this.nextNonspaceColumn = cols
+    this.indent = this.nextNonspaceColumn - this.column
+    this.indented = this.indent >= CODE_INDENT
+  }
+
+  // Advances by `count` characters, or by `count` columns when `columns` is set (tabs count as up to 4)
+  private advanceOffset(count: number, columns = false) {
+    const line = this.currentLine
+    let c: string | undefined
+    while (count > 0 && (c = line[this.offset]) !== undefined) {
+      if (c === "\t") {
+        const charsToTab = 4 - (this.column % 4)
+        if (columns) {
+          this.partiallyConsumedTab = charsToTab > count
+          const charsToAdvance = charsToTab > count ? count : charsToTab
+          this.column += charsToAdvance
+          this.offset += this.partiallyConsumedTab ? 0 : 1
+          count -= charsToAdvance
+        } else {
+          this.partiallyConsumedTab = false
+          this.column += charsToTab
+          this.offset += 1
+          count -= 1
+        }
+      } else {
+        this.partiallyConsumedTab = false
+        this.offset += 1
+        this.column += 1
+        count -= 1
+      }
+    }
+  }
+
+  private advanceNextNonspace() {
+    this.offset = this.nextNonspace
+    this.column = this.nextNonspaceColumn
+    this.partiallyConsumedTab = false
+  }
+
+  private addLine() {
+    if (this.partiallyConsumedTab) {
+      this.offset += 1
+      const charsToTab = 4 - (this.column % 4)
+      this.tip.stringContent += " ".repeat(charsToTab)
+    }
+    this.tip.stringContent += this.currentLine.slice(this.offset) + "\n"
+  }
+
+  private addChild(type: NodeType): Node {
+    while (!canContain(this.tip.type, type)) {
+      this.finalize(this.tip)
+    }
+    const block = new Node(type)
+    block.startLine = this.lineNumber
+    this.tip.appendChild(block)
+    this.tip = block
+    return block
+  }
+
+  private closeUnmatchedBlocks() {
+    if (this.allClosed) {
+      return
+    }
+    while (this.oldTip !== this.lastMatchedContainer) {
+      const parent = this.oldTip.parent as Node
+      this.finalize(this.oldTip)
+      this.oldTip = parent
+    }
+    this.allClosed = true
+  }
+
+  private incorporateLine(line: string) {
+    let container: Node = this.doc
+    this.oldTip = this.tip
+    this.offset = 0
+    this.column = 0
+    this.blank = false
+    this.partiallyConsumedTab = false
+    this.lineNumber++
+    this.currentLine = line.includes("\u0000") ? line.replace(/\0/g, "\ufffd") : line
+
+    // Phase 1: walk the open blocks and check which ones the line continues
+    let lastChild: Node | null
+    while ((lastChild = container.lastChild) && lastChild.open) {
+      container = lastChild
+      this.findNextNonspace()
+      const result = this.continueBlock(container)
+      if (result === Continuation.LineConsumed) {
+        return
+      }
+      if (result === Continuation.NotMatched) {
+        container = container.parent as Node
+        break
+      }
+    }
+
+    this.allClosed = container === this.oldTip
+    this.lastMatchedContainer = container
+
+    // Phase 2: look for new block starts
+    let matchedLeaf = container.type !== "paragraph" && acceptsLines(container.type)
+    while (!matchedLeaf) {
+      this.findNextNonspace()
+      if (!this.indented && !reMaybeSpecial.test(this.currentLine.slice(this.nextNonspace))) {
+        this.advanceNextNonspace()
+        break
+      }
+      const result = this.startBlock(container)
+      if (result === Start.None) {
+        this.advanceNextNonspace()
+        break
+      }
+      container = this.tip
+      if (result === Start.Leaf) {
+        matchedLeaf = true
+      }
+    }
+
+    // Phase 3: add the remaining text to the appropriate block
+    if (!this.allClosed && !this.blank && this.tip.type === "paragraph") {
+      // Lazy paragraph continuation
+      this.addLine()
+      return
+    }
+
+    this.closeUnmatchedBlocks()
+    if (this.blank && container.lastChild) {
+      container.lastChild.lastLineBlank = true
+    }
+
+    // Blank lines in block quotes and fenced code, and the first blank line of an empty
+    // list item, don't count when deciding whether a list is loose
+    const lastLineBlank =
+      this.blank &&
+      !(
+        container.type === "blockquote" ||
+        (container.type === "code_block" && container.fenced) ||
+        (container.type === "list_item" && !container.firstChild && container.startLine === this.lineNumber)
+      )
+    for (let block: Node | null = container; block; block = block.parent) {
+      block.lastLineBlank = lastLineBlank
+    }
+
+    if (acceptsLines(container.type)) {
+      this.addLine()
+      if (
+        container.type === "html_block" &&
+        container.htmlBlockType >= 1 &&
+        container.htmlBlockType <= 5 &&
+        reHtmlBlockClose[container.htmlBlockType].test(this.currentLine.slice(this.offset))
+      ) {
+        this.finalize(container)
+      }
+    } else if (this.offset < this.currentLine.length && !this.blank) {
+      this.addChild("paragraph")
+      this.advanceNextNonspace()
+      this.addLine()
+    }
+  }
+
+  private continueBlock(container: Node): Continuation {
+    const line = this.currentLine
+    switch (container.type) {
+      case "document":
+      case "list":
+        return Continuation.Matched
+
+      case "blockquote":
+        if (this.indented || line[this.nextNonspace] !== ">") {
+          return Continuation.NotMatched
+        }
+        this.advanceNextNonspace()
+        this.advanceOffset(1)
+        if (isSpaceOrTab(line[this.offset])) {
+          this.advanceOffset(1, true)
+        }
+        return Continuation.Matched
+
+      case "admonition":
+        // Content is indented by four columns; blank lines don't end the block
+        if (this.indent >= CODE_INDENT) {
+          this.advanceOffset(CODE_INDENT, true)
+        } else if (this.blank) {
+          this.advanceNextNonspace()
+        } else {
+          return Continuation.NotMatched
+        }
+        return Continuation.Matched
+
+      case "list_item": {
+        const data = container.listData as ListData
+        if (this.blank) {
+          if (!container.firstChild) {
+            // A list item can begin with at most one blank line
+            return Continuation.NotMatched
+          }
+          this.advanceNextNonspace()
+        } else if (this.indent >= data.markerOffset + data.padding) {
+          this.advanceOffset(data.markerOffset + data.padding, true)
+        } else {
+          return Continuation.NotMatched
+        }
+        return Continuation.Matched
+      }
+
+      case "code_block": {
+        if (container.fenced) {
+          const match =
+            this.indent <= 3 &&
+            line[this.nextNonspace] === container.fenceChar &&
+            line.slice(this.nextNonspace).match(reClosingCodeFence)
+          if (match && match[0].length >= container.fenceLength) {
+            this.finalize(container)
+            return Continuation.LineConsumed
+          }
+          // Strip up to the opening fence's indentation from content lines
+          let i = container.fenceOffset
+          while (i > 0 && isSpaceOrTab(line[this.offset])) {
+            this.advanceOffset(1, true)
+            i--
+          }
+          return Continuation.Matched
+        }
+        if (this.indent >= CODE_INDENT) {
+          this.advanceOffset(CODE_INDENT, true)
+        } else if (this.blank) {
+          this.advanceNextNonspace()
+        } else {
+          return Continuation.NotMatched
+        }
+        return Continuation.Matched
+      }
+
+      case "html_block":
+        return this.blank && (container.htmlBlockType === 6 || container.htmlBlockType === 7)
+          ? Continuation.NotMatched
+          : Continuation.Matched
+
+      case "paragraph":
+        return this.blank ? Continuation.NotMatched : Continuation.Matched
+
+      case "table": {
+        const rest = line.slice(this.nextNonspace)
+        const interrupted =
+          !this.indented &&
+          (reTableInterrupt.test(rest) || reThematicBreak.test(rest) || reAdmonitionStart.test(rest))
+        return this.blank || interrupted ? Continuation.NotMatched : Continuation.Matched
+      }
+
+      default:
+        return Continuation.NotMatched
+    }
+  }
+
+  private startBlock(container: Node): Start {
+    const starts = [
+      this.startBlockQuote,
+      this.startAtxHeading,
+      this.startFencedCode,
+      this.startHtmlBlock,
+      this.startAdmonition,
+      this.startTable,
+      this.startSetextHeading,
+      this.startThematicBreak,
+      this.startListItem,
+      this.startIndentedCode,
+    ]
+    for (const start of starts) {
+      const result = start.call(this, container)
+      if (result !== Start.None) {
+        return result
+      }
+    }
+    return Start.None
+  }
+
+  private startBlockQuote(): Start {
+    if (this.indented || this.currentLine[this.nextNonspace] !== ">") {
+      return Start.None
+    }
+    this.advanceNextNonspace()
+    this.advanceOffset(1)
+    if (isSpaceOrTab(this.currentLine[this.offset])) {
+      this.advanceOffset(1, true)
+    }
+    this.closeUnmatchedBlocks()
+    this.addChild("blockquote")
+    return Start.Container
+  }
+
+  private startAdmonition(): Start {
+    const match = this.indented ? null : this.currentLine.slice(this.nextNonspace).match(reAdmonitionStart)
+    if (!match) {
+      return Start.None
+    }
+    this.closeUnmatchedBlocks()
+    const block = this.addChild("admonition")
+    block.admonitionKind = match[1].toLowerCase()
+    block.admonitionTitle = match[2] === undefined ? null : unescapeString(match[2])
+    this.advanceOffset(this.currentLine.length - this.offset)
+    return Start.Container
+  }
+
+  private startAtxHeading(): Start {
+    const match = this.indented ? null : this.currentLine.slice(this.nextNonspace).match(reATXHeadingMarker)
+    if (!match) {
+      return Start.None
+    }
+    this.advanceNextNonspace()
+    this.advanceOffset(match[0].length)
+    this.closeUnmatchedBlocks()
+    const heading = this.addChild("heading")
+    heading.level = match[0].trim().length
+    // Strip the optional closing sequence of #s
+    heading.stringContent = this.currentLine
+      .slice(this.offset)
+      .replace(/^[ \t]*#+[ \t]*$/, "")
+      .replace(/[ \t]+#+[ \t]*$/, "")
+    this.advanceOffset(this.currentLine.length - this.offset)
+    return Start.Leaf
+  }
+
+  private startFencedCode(): Start {
+    const match = this.indented ? null : this.currentLine.slice(this.nextNonspace).match(reCodeFence)
+    if (!match) {
+      return Start.None
+    }
+    const fenceLength = match[0].length
+    this.closeUnmatchedBlocks()
+    const code = this.addChild("code_block")
+    code.fenced = true
+    code.fenceLength = fenceLength
+    code.fenceChar = match[0][0]
+    code.fenceOffset = this.indent
+    this.advanceNextNonspace()
+    this.advanceOffset(fenceLength)
+    return Start.Leaf
+  }
+
+  private startHtmlBlock(container: Node): Start {
+    if (this.indented || this.currentLine[this.nextNonspace] !== "<") {
+      return Start.None
+    }
+    const rest = this.currentLine.slice(this.nextNonspace)
+    const lazyParagraph = !this.allClosed && !this.blank && this.tip.type === "paragraph"
+    for (let blockType = 1; blockType <= 7; blockType++) {
+      // Type 7 blocks cannot interrupt a paragraph
+      if (reHtmlBlockOpen[blockType].test(rest) && (blockType < 7 || (container.type !== "paragraph" && !lazyParagraph))) {
+        this.closeUnmatchedBlocks()
+        const block = this.addChild("html_block")
+        block.htmlBlockType = blockType
+        return Start.Leaf
+      }
+    }
+    return Start.None
+  }
+
+  // A delimiter row under a paragraph line turns that line into the header of a table. The
+  // delimiter row itself is added as the table's second line and skipped when the table is closed.
+  private startTable(container: Node): Start {
+    if (this.indented || container.type !== "paragraph") {
+      return Start.None
+    }
+    const delimiterRow = this.currentLine.slice(this.nextNonspace)
+    if (!delimiterRow.includes("|") || !reTableDelimiterRow.test(delimiterRow)) {
+      return Start.None
+    }
+    const lines = container.stringContent.replace(/\n$/, "").split("\n")
+    const headerLine = lines[lines.length - 1]
+    const align = splitTableRow(delimiterRow).map(parseAlignment)
+    if (splitTableRow(headerLine).length !== align.length) {
+      return Start.None
+    }
+
+    this.closeUnmatchedBlocks()
+    const preceding = lines.slice(0, -1)
+    if (preceding.length > 0) {
+      container.stringContent = preceding.join("\n") + "\n"
+      this.finalize(container)
+    } else {
+      this.tip = container.parent as Node
+      container.unlink()
+    }
+    const table = this.addChild("table")
+    table.align = align
+    table.stringContent = headerLine + "\n"
+    return Start.Leaf
+  }
+
+  private startSetextHeading(container: Node): Start {
+    if (this.indented || container.type !== "paragraph") {
+      return Start.None
+    }
+    const match = this.currentLine.slice(this.nextNonspace).match(reSetextHeadingLine)
+    if (!match) {
+      return Start.None
+    }
+    this.closeUnmatchedBlocks()
+    this.onParagraphFinalize?.(container)
+    if (isBlank(container.stringContent)) {
+      return Start.None
+    }
+    const heading = new Node("heading")
+    heading.startLine = container.startLine
+    heading.level = match[0][0] === "=" ? 1 : 2
+    heading.setext = true
+    heading.stringContent = container.stringContent
+    container.insertAfter(heading)
+    container.unlink()
+    this.tip = heading
+    this.advanceOffset(this.currentLine.length - this.offset)
+    return Start.Leaf
+  }
+
+  private startThematicBreak(): Start {
+    if (this.indented || !reThematicBreak.test(this.currentLine.slice(this.nextNonspace))) {
+      return Start.None
+    }
+    this.closeUnmatchedBlocks()
+    this.addChild("thematic_break")
+    this.advanceOffset(this.currentLine.length - this.offset)
+    return Start.Leaf
+  }
+
+  private startListItem(container: Node): Start {
+    if (this.indented && container.type !== "list") {
+      return Start.None
+    }
+    const data = this.parseListMarker(container)
+    if (!data) {
+      return Start.None
+    }
+    this.closeUnmatchedBlocks()
+    if (this.tip.type !== "list" || !listsMatch(this.tip.listData as ListData, data)) {
+      const list = this.addChild("list")
+      list.listData = data
+    }
+    const item = this.addChild("list_item")
+    item.listData = data
+    return Start.Container
+  }
+
+  private startIndentedCode(): Start {
+    if (!this.indented || this.tip.type === "paragraph" || this.blank) {
+      return Start.None
+    }
+    this.advanceOffset(CODE_INDENT, true)
+    this.closeUnmatchedBlocks()
+    this.addChild("code_block")
+    return Start.Leaf
+  }
+
+  private parseListMarker(container: Node): ListData | null {
+    if (this.indent >= CODE_INDENT) {
+      return null
+    }
+    const line = this.currentLine
+    const rest = line.slice(this.nextNonspace)
+    const data: ListData = {
+      type: "bullet",
+      tight: true,
+      bulletChar: "",
+      start: 1,
+      delimiter: "",
+      padding: 0,
+      markerOffset: this.indent,
+    }
+
+    let match = rest.match(reBulletListMarker)
+    if (match) {
+      data.bulletChar = match[0][0]
+    } else {
+      match = rest.match(reOrderedListMarker)
+      // Only lists starting at 1 may interrupt a paragraph
+      if (!match || (container.type === "paragraph" && match[1] !== "1")) {
+        return null
+      }
+      data.type = "ordered"
+      data.start = parseInt(match[1], 10)
+      data.delimiter = match[2]
+    }
+
+    const markerLength = match[0].length
+    const nextChar = line[this.nextNonspace + markerLength]
+    if (!(nextChar === undefined || isSpaceOrTab(nextChar))) {
+      return null
+    }
+    // An empty list item cannot interrupt a paragraph
+    if (container.type === "paragraph" && !reNonSpace.test(line.slice(this.nextNonspace + markerLength))) {
+      return null
+    }
+
+    this.advanceNextNonspace()
+    this.advanceOffset(markerLength, true)
+    const spacesStartCol = this.column
+    const spacesStartOffset = this.offset
+    do {
+      this.advanceOffset(1, true)
+    } while (this.column - spacesStartCol < 5 && isSpaceOrTab(line[this.offset]))
+
+    const blankItem = line[this.offset] === undefined
+    const spacesAfterMarker = this.column - spacesStartCol
+    if (spacesAfterMarker >= 5 || spacesAfterMarker < 1 || blankItem) {
+      // Content starting with 5+ spaces is indented code; the item content begins one space after the marker
+      data.padding = markerLength + 1
+      this.column = spacesStartCol
+      this.offset = spacesStartOffset
+      if (isSpaceOrTab(line[this.offset])) {
+        this.advanceOffset(1, true)
+      }
+    } else {
+      data.padding = markerLength + spacesAfterMarker
+    }
+    return data
+  }
+
+  private finalize(block: Node) {
+    const parent = block.parent
+    block.open = false
+
+    switch (block.type) {
+      case "paragraph":
+        this.onParagraphFinalize?.(block)
+        if (isBlank(block.stringContent)) {
+          block.unlink()
+        }
+        break
+
+      case "code_block":
+        if (block.fenced) {
+          const content = block.stringContent
+          const newline = content.indexOf("\n")
+          block.info = unescapeString(content.slice(0, newline).trim())
+          block.literal = content.slice(newline + 1)
+        } else {
+          block.literal = block.stringContent.replace(/(\n *)+$/, "\n")
+        }
+        block.stringContent = ""
+        break
+
+      case "html_block":
+        block.literal = block.stringContent.replace(/(\n *)+$/, "")
+        block.stringContent = ""
+        break
+
+      case "table": {
+        const [headerLine, , ...bodyLines] = block.stringContent.replace(/\n$/, "").split("\n")
+        const width = block.align.length
+        const rows: [string, boolean][] = [[headerLine, true], ...bodyLines.map((line): [string, boolean] => [line, false])]
+        for (const [line, header] of rows) {
+          const row = new Node("table_row")
+          row.header = header
+          // Rows are padded or truncated to the header's width
+          const cells = splitTableRow(line)
+          for (let i = 0; i < width; i++) {
+            const cell = new Node("table_cell")
+            cell.stringContent = cells[i] ?? ""
+            row.appendChild(cell)
+          }
+          block.appendChild(row)
+        }
+        block.stringContent = ""
+        break
+      }
+
+      case "list": {
+        const data = block.listData as ListData
+        for (let item = block.firstChild; item && data.tight; item = item.next) {
+          if (endsWithBlankLine(item) && item.next) {
+            data.tight = false
+            break
+          }
+          for (let sub = item.firstChild; sub; sub = sub.next) {
+            if (endsWithBlankLine(sub) && (item.next || sub.next)) {
+              data.tight = false
+              break
+            }
+          }
+        }
+        break
+      }
+    }
+
+    this.tip = parent ?? this.doc
+  }
+}
@@ -0,0 +1,132 @@
+// Patterns and string helpers shared by the block and inline parsers, following the CommonMark spec.
+
+const TAGNAME = "[A-Za-z][A-Za-z0-9-]*"
+const ATTRIBUTENAME = "[a-zA-Z_:][a-zA-Z0-9:._-]*"
+const UNQUOTEDVALUE = "[^\"'=<>`\\x00-\\x20]+"
+const SINGLEQUOTEDVALUE = "'[^']*'"
+const DOUBLEQUOTEDVALUE = '"[^"]*"'
+const ATTRIBUTEVALUE = `(?:${UNQUOTEDVALUE}|${SINGLEQUOTEDVALUE}|${DOUBLEQUOTEDVALUE})`
+const ATTRIBUTEVALUESPEC = `(?:\\s*=\\s*${ATTRIBUTEVALUE})`
+const ATTRIBUTE = `(?:\\s+${ATTRIBUTENAME}${ATTRIBUTEVALUESPEC}?)`
+export const OPENTAG = `<${TAGNAME}${ATTRIBUTE}*\\s*/?>`
+export const CLOSETAG = `</${TAGNAME}\\s*[>]`
+const HTMLCOMMENT = "<!-->|<!--->|<!--[\\s\\S]*?-->"
+const PROCESSINGINSTRUCTION = "[<][?][\\s\\S]*?[?][>]"
+const DECLARATION = "<![A-Za-z]+[^>]*>"
+const CDATA = "<!\\[CDATA\\[[\\s\\S]*?\\]\\]>"
+const HTMLTAG = `(?:${OPENTAG}|${CLOSETAG}|${HTMLCOMMENT}|${PROCESSINGINSTRUCTION}|${DECLARATION}|${CDATA})`
+
+export const ESCAPABLE = "[!\"#$%&'()*+,./:;<=>?@[\\\\\\]^_`{|}~-]"
+const ESCAPED_CHAR = `\\\\${ESCAPABLE}`
+const ENTITY = "&(?:#x[a-f0-9]{1,6}|#[0-9]{1,7}|[a-z][a-z0-9]{1,31});"
+
+export const reHtmlTag = new RegExp(`^${HTMLTAG}`, "i")
+export const reEscapable = new RegExp(`^${ESCAPABLE}`)
+export const reEntityHere = new RegExp(`^${ENTITY}`, "i")
+const reEntityOrEscapedChar = new RegExp(`\\\\${ESCAPABLE}|${ENTITY}`, "gi")
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  bull: "•",
+  middot: "·",
+  deg: "°",
+  plusmn: "±",
+  times: "×",
+  divide: "÷",
+  frac12: "½",
+  frac14: "¼",
+  frac34: "¾",
+  para: "¶",
+  sect: "§",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+  cent: "¢",
+  larr: "←",
+  rarr: "→",
+  uarr: "↑",
+  darr: "↓",
+  harr: "↔",
+  le: "≤",
+  ge: "≥",
+  ne: "≠",
+  infin: "∞",
+  check: "✓",
+  auml: "ä",
+  ouml: "ö",
+  uuml: "ü",
+  Auml: "Ä",
+  Ouml: "Ö",
+  Uuml: "Ü",
+  szlig: "ß",
+  eacute: "é",
+  egrave: "è",
+  aacute: "á",
+  agrave: "à",
+  ccedil: "ç",
+  ntilde: "ñ",
+}
+
+// Decodes a single `&...;` entity; unknown named entities are returned unchanged
+export function decodeEntity(entity: string): string {
+  const body = entity.slice(1, -1)
+  if (body[0] === "#") {
+    const code = body[1] === "x" || body[1] === "X" ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10)
+    if (code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+      return "\ufffd"
+    }
+    return String.fromCodePoint(code)
+  }
+  return NAMED_ENTITIES[body] ?? entity
+}
+
+// Resolves backslash escapes and entities, as required for link destinations, titles and info strings
+export function unescapeString(value: string): string {
+  if (!/[\\&]/.test(value)) {
+    return value
+  }
+  return value.replace(reEntityOrEscapedChar, (match) => (match[0] === "\\" ? match[1] : decodeEntity(match)))
+}
+
+export function isBlank(value: string): boolean {
+  return !/[^ \t\f\v\r\n]/.test(value)
+}
+
+export function isSpaceOrTab(char: string | undefined): boolean {
+  return char === " " || char === "\t"
+}
+
+export const reWhitespaceChar = /^[ \t\n\x0b\x0c\x0d]/
+export const reUnicodeWhitespaceChar = /^\s/
+export const rePunctuation = /^[!-/:-@[-`{-~\u00a1-\u00bf\u2010-\u2027\u2030-\u205e\u20a0-\u20cf\u3000-\u303f]/
+export const reLinkTitle = new RegExp(
+  `^(?:"(${ESCAPED_CHAR}|\\\\[^\\\\]|[^\\\\"\\x00])*"|'(${ESCAPED_CHAR}|\\\\[^\\\\]|[^\\\\'\\x00])*'|\\((${ESCAPED_CHAR}|\\\\[^\\\\]|[^\\\\()\\x00])*\\))`,
+)
+
+// Link labels match case-insensitively with internal whitespace collapsed. Upper-casing after
+// lower-casing applies Unicode case folding closely enough for the spec's examples.
+export function normalizeReference(label: string): string {
+  return label
+    .slice(1, -1)
+    .trim()
+    .replace(/[ \t\r\n]+/g, " ")
+    .toLowerCase()
+    .toUpperCase()
+}
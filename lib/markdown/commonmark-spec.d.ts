@@ -0,0 +1,12 @@
+// The examples of the CommonMark spec, as published by the commonmark-spec package
+declare module "commonmark-spec" {
+  export interface SpecExample {
+    markdown: string
+    html: string
+    section: string
+    number: number
+  }
+
+  export const tests: SpecExample[]
+  export const text: string
+}
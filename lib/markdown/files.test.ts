@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest"
+import { fileTitle, markdownExtension, parseExtensions, stripMdx } from "./files"
+
+describe("parseExtensions", () => {
+  it("lowercases, adds the dot and drops repeats", () => {
+    expect(parseExtensions("md, .MDX  *.txt,md\n.markdown")).toEqual([".md", ".mdx", ".txt", ".markdown"])
+  })
+
+  it("ignores empty entries", () => {
+    expect(parseExtensions(" , . *. ")).toEqual([])
+  })
+})
+
+describe("markdownExtension", () => {
+  it("matches regardless of case", () => {
+    expect(markdownExtension("docs/README.MD", [".md"])).toBe(".md")
+    expect(markdownExtension("docs/notes.txt", [".md"])).toBeNull()
+  })
+
+  it("prefers the longest extension", () => {
+    expect(markdownExtension("notes.md.txt", [".txt", ".md.txt"])).toBe(".md.txt")
+    expect(markdownExtension("notes.txt", [".txt", ".md.txt"])).toBe(".txt")
+  })
+
+  it("needs a name before the extension", () => {
+    expect(markdownExtension(".md", [".md"])).toBeNull()
+  })
+})
+
+describe("fileTitle", () => {
+  it("removes only the extension at the end", () => {
+    expect(fileTitle("a/my.mdnotes.md", ".md")).toBe("my.mdnotes")
+    expect(fileTitle("Guide.MDX", ".mdx")).toBe("Guide")
+  })
+})
+
+describe("stripMdx", () => {
+  it("removes import and export statements, also over several lines", () => {
+    const content = [
+      "import { Callout } from '@/components'",
+      "import {",
+      "  Tabs,",
+      "  Tab,",
+      "} from 'docs-theme'",
+      "export const meta = {",
+      "  title: 'Guide',",
+      "}",
+      "",
+      "# Guide",
+    ].join("\n")
+    expect(stripMdx(content)).toBe("\n# Guide")
+  })
+
+  it("removes tags on their own lines and keeps the text between them", () => {
+    const content = ['<Callout type="warning">', "", "Back up first.", "", "</Callout>", "<Divider />"].join("\n")
+    expect(stripMdx(content)).toBe("\nBack up first.\n")
+  })
+
+  it("keeps the text of tags on the same line", () => {
+    expect(stripMdx('<Callout type="info">Remember to restart the server.</Callout>')).toBe(
+      "Remember to restart the server.",
+    )
+    expect(stripMdx("<Badge label={`a > b`} />Beta <Icon name=\"star\"/> feature")).toBe("Beta  feature")
+  })
+
+  it("follows tags whose attributes continue on later lines", () => {
+    const content = ["<Callout", '  title="Note > tip"', "  data={{ level: 2 }}", ">Kept text", "</Callout>", "After"]
+    expect(stripMdx(content.join("\n"))).toBe("Kept text\nAfter")
+  })
+
+  it("removes {expression} lines such as comments", () => {
+    expect(stripMdx("Before\n{/* A comment */}\nAfter")).toBe("Before\nAfter")
+  })
+
+  it("leaves code blocks and inline JSX alone", () => {
+    const content = [
+      "```jsx",
+      "import React from 'react'",
+      "<Callout>Hi</Callout>",
+      "{/* kept */}",
+      "```",
+      "Use <Kbd>Ctrl</Kbd> here.",
+    ]
+    expect(stripMdx(content.join("\n"))).toBe(content.join("\n"))
+  })
+})
@@ -0,0 +1,124 @@
+// Which files in an archive or folder are Markdown, and how their contents are prepared for parsing.
+
+export const DEFAULT_MARKDOWN_EXTENSIONS = [".md", ".markdown", ".mdown", ".mkd", ".mdx", ".txt"]
+
+// Extensions from a list typed by the user, separated by commas or spaces: lowercased, with a leading
+// dot and without repeats
+export function parseExtensions(value: string): string[] {
+  const extensions = value
+    .split(/[\s,]+/)
+    .map((extension) => extension.trim().toLowerCase().replace(/^\*?\.?/, "."))
+    .filter((extension) => extension.length > 1)
+  return Array.from(new Set(extensions))
+}
+
+// The extension a path ends with, ignoring case, or null when it has none of them. The longest match
+// wins, so with both ".txt" and ".md.txt" listed, "notes.md.txt" is titled "notes".
+export function markdownExtension(path: string, extensions: string[]): string | null {
+  const lower = path.toLowerCase()
+  let match: string | null = null
+  for (const extension of extensions) {
+    if (lower.endsWith(extension) && lower.length > extension.length && extension.length > (match?.length ?? 0)) {
+      match = extension
+    }
+  }
+  return match
+}
+
+// The file's name without its directory and the given extension, e.g. "docs/my.mdnotes.md" -> "my.mdnotes"
+export function fileTitle(path: string, extension: string): string {
+  const name = path.slice(path.lastIndexOf("/") + 1)
+  return name.slice(0, name.length - extension.length) || name
+}
+
+const reFence = /^ {0,3}(`{3,}|~{3,})/
+const reEsmStatement = /^(?:import|export)\b/
+const reJsxTag = /^ {0,3}<\/?(?:[A-Z][\w.]*|>)/
+const reJsxExpression = /^ {0,3}\{.*\}\s*$/
+// Attribute text of a tag: quoted strings and {expressions}, such as {{ a: 1 }}, may hold a ">"
+const JSX_ATTRIBUTES = String.raw`(?:"[^"]*"|'[^']*'|\{(?:[^{}]|\{[^{}]*\})*\}|[^>"'{}])*`
+// A whole <Tag ...>, </Tag>, <Tag ... /> or fragment tag
+const reJsxMarkup = new RegExp(String.raw`<\/?(?:[A-Z][\w.]*(?:\s${JSX_ATTRIBUTES})?\/?)?>`, "g")
+// An opening tag whose attributes continue on the next line
+const reJsxTagStart = /<[A-Z][\w.]*(?:\s[^>]*)?$/
+// The rest of a tag started on an earlier line, up to its ">"
+const reJsxTagEnd = new RegExp(String.raw`^${JSX_ATTRIBUTES}>`)
+
+// Change in bracket depth over a line, for following statements and tags onto later lines
+function depthChange(line: string): number {
+  let depth = 0
+  for (const char of line) {
+    if (char === "{" || char === "(" || char === "[") {
+      depth++
+    } else if (char === "}" || char === ")" || char === "]") {
+      depth--
+    }
+  }
+  return depth
+}
+
+// The text of a line that starts with JSX, without the tag markup, and whether it ends inside a tag
+// that continues on the next line
+function stripJsxTags(line: string): { text: string; inTag: boolean } {
+  const text = line.replace(reJsxMarkup, "")
+  const start = text.search(reJsxTagStart)
+  return start === -1 ? { text: text.trim(), inTag: false } : { text: text.slice(0, start).trim(), inTag: true }
+}
+
+// Removes what MDX adds to Markdown: import and export statements, JSX component tags at the start of
+// a line (the text between an opening and closing tag is kept, on their lines or between them), and
+// lines that are only a {expression} such as a {/* comment */}. Code blocks are left alone. Inline
+// JSX within a paragraph is kept as written.
+export function stripMdx(content: string): string {
+  const lines = content.split(/\r?\n/)
+  const kept: string[] = []
+  let fence: string | null = null
+  // Set while skipping the rest of a statement or tag that spans lines
+  let depth = 0
+  let inTag = false
+
+  const keepTagLine = (line: string) => {
+    const stripped = stripJsxTags(line)
+    inTag = stripped.inTag
+    if (stripped.text) {
+      kept.push(stripped.text)
+    }
+  }
+
+  for (const line of lines) {
+    if (fence) {
+      kept.push(line)
+      if (line.trim().startsWith(fence)) {
+        fence = null
+      }
+      continue
+    }
+    if (depth > 0) {
+      depth += depthChange(line)
+      continue
+    }
+    if (inTag) {
+      // What follows the end of the tag is read like a line starting with a tag
+      const end = line.match(reJsxTagEnd)
+      if (end) {
+        keepTagLine(line.slice(end[0].length))
+      }
+      continue
+    }
+
+    const opening = line.match(reFence)
+    if (opening) {
+      fence = opening[1]
+      kept.push(line)
+    } else if (reEsmStatement.test(line)) {
+      depth = Math.max(depthChange(line), 0)
+    } else if (reJsxTag.test(line)) {
+      keepTagLine(line)
+    } else if (reJsxExpression.test(line)) {
+      continue
+    } else {
+      kept.push(line)
+    }
+  }
+  return kept.join("\n")
+}
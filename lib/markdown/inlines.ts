@@ -0,0 +1,619 @@
+import { Node } from "./node"
+import {
+  decodeEntity,
+  normalizeReference,
+  reEntityHere,
+  reEscapable,
+  reHtmlTag,
+  reLinkTitle,
+  rePunctuation,
+  reUnicodeWhitespaceChar,
+  reWhitespaceChar,
+  unescapeString,
+} from "./common"
+
+const reLinkDestinationBraces = /^(?:<(?:[^<>\n\\\x00]|\\.)*>)/
+const reLinkLabel = /^\[(?:[^\\\[\]]|\\.){0,1000}\]/s
+const reSpaceAtEndOfLine = /^ *(?:\n|$)/
+const reTicksHere = /^`+/
+const reTicks = /`+/
+const reSpnl = /^ *(?:\n *)?/
+const reFinalSpace = / *$/
+const reInitialSpace = /^ */
+const reMain = /^[^\n`\[\]\\!<&*_]+/m
+const reEmailAutolink =
+  /^<([a-zA-Z0-9.!#$%&'*+\/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/
+const reAutolink = /^<[A-Za-z][A-Za-z0-9.+-]{1,31}:[^<>\x00-\x20]*>/i
+
+interface Delimiter {
+  char: string
+  numDelims: number
+  origDelims: number
+  node: Node
+  previous: Delimiter | null
+  next: Delimiter | null
+  canOpen: boolean
+  canClose: boolean
+}
+
+interface Bracket {
+  node: Node
+  previous: Bracket | null
+  previousDelimiter: Delimiter | null
+  index: number
+  image: boolean
+  active: boolean
+  bracketAfter: boolean
+}
+
+export interface LinkReference {
+  destination: string
+  title: string
+}
+
+function text(value: string): Node {
+  return new Node("text", value)
+}
+
+// Parses the raw text of paragraphs and headings into inline nodes, using the
+// delimiter-stack algorithm from the CommonMark spec for emphasis and links.
+export class InlineParser {
+  private subject = ""
+  private pos = 0
+  private delimiters: Delimiter | null = null
+  private brackets: Bracket | null = null
+  // Link reference definitions by normalized label, collected from paragraphs as blocks close
+  readonly refmap = new Map<string, LinkReference>()
+
+  parse(block: Node) {
+    this.subject = block.stringContent.trim()
+    this.pos = 0
+    this.delimiters = null
+    this.brackets = null
+    while (this.parseInline(block)) {}
+    block.stringContent = ""
+    this.processEmphasis(null)
+  }
+
+  private peek(): string | undefined {
+    return this.subject[this.pos]
+  }
+
+  private match(re: RegExp): string | null {
+    const m = re.exec(this.subject.slice(this.pos))
+    if (m === null) {
+      return null
+    }
+    this.pos += m.index + m[0].length
+    return m[0]
+  }
+
+  // Skips optional spaces and at most one newline
+  private spnl(): boolean {
+    this.match(reSpnl)
+    return true
+  }
+
+  private parseInline(block: Node): boolean {
+    const c = this.peek()
+    if (c === undefined) {
+      return false
+    }
+    let handled: boolean
+    switch (c) {
+      case "\n":
+        handled = this.parseNewline(block)
+        break
+      case "\\":
+        handled = this.parseBackslash(block)
+        break
+      case "`":
+        handled = this.parseBackticks(block)
+        break
+      case "*":
+      case "_":
+        handled = this.handleDelim(c, block)
+        break
+      case "[":
+        handled = this.parseOpenBracket(block)
+        break
+      case "!":
+        handled = this.parseBang(block)
+        break
+      case "]":
+        handled = this.parseCloseBracket(block)
+        break
+      case "<":
+        handled = this.parseAutolink(block) || this.parseHtmlTag(block)
+        break
+      case "&":
+        handled = this.parseEntity(block)
+        break
+      default:
+        handled = this.parseString(block)
+    }
+    if (!handled) {
+      this.pos += 1
+      block.appendChild(text(c))
+    }
+    return true
+  }
+
+  private parseNewline(block: Node): boolean {
+    this.pos += 1
+    const last = block.lastChild
+    if (last && last.type === "text" && last.literal.endsWith(" ")) {
+      const hard = last.literal.endsWith("  ")
+      last.literal = last.literal.replace(reFinalSpace, "")
+      block.appendChild(new Node(hard ? "hard_break" : "soft_break"))
+    } else {
+      block.appendChild(new Node("soft_break"))
+    }
+    this.match(reInitialSpace)
+    return true
+  }
+
+  private parseBackslash(block: Node): boolean {
+    this.pos += 1
+    if (this.peek() === "\n") {
+      this.pos += 1
+      block.appendChild(new Node("hard_break"))
+    } else if (reEscapable.test(this.subject.charAt(this.pos))) {
+      block.appendChild(text(this.subject.charAt(this.pos)))
+      this.pos += 1
+    } else {
+      block.appendChild(text("\\"))
+    }
+    return true
+  }
+
+  private parseBackticks(block: Node): boolean {
+    const ticks = this.match(reTicksHere)
+    if (ticks === null) {
+      return false
+    }
+    const afterOpenTicks = this.pos
+    let matched: string | null
+    while ((matched = this.match(reTicks)) !== null) {
+      if (matched === ticks) {
+        const contents = this.subject.slice(afterOpenTicks, this.pos - ticks.length).replace(/\n/g, " ")
+        const stripped =
+          contents.length > 0 && /[^ ]/.test(contents) && contents[0] === " " && contents[contents.length - 1] === " "
+            ? contents.slice(1, -1)
+            : contents
+        block.appendChild(new Node("code_span", stripped))
+        return true
+      }
+    }
+    this.pos = afterOpenTicks
+    block.appendChild(text(ticks))
+    return true
+  }
+
+  private parseAutolink(block: Node): boolean {
+    let m: string | null
+    if ((m = this.match(reEmailAutolink))) {
+      const address = m.slice(1, -1)
+      block.appendChild(this.linkNode("link", `mailto:${address}`, "", [text(address)]))
+      return true
+    }
+    if ((m = this.match(reAutolink))) {
+      const url = m.slice(1, -1)
+      block.appendChild(this.linkNode("link", url, "", [text(url)]))
+      return true
+    }
+    return false
+  }
+
+  private parseHtmlTag(block: Node): boolean {
+    const m = this.match(reHtmlTag)
+    if (m === null) {
+      return false
+    }
+    block.appendChild(new Node("html_inline", m))
+    return true
+  }
+
+  private parseEntity(block: Node): boolean {
+    const m = this.match(reEntityHere)
+    if (m === null) {
+      return false
+    }
+    block.appendChild(text(decodeEntity(m)))
+    return true
+  }
+
+  private parseString(block: Node): boolean {
+    const m = this.match(reMain)
+    if (m === null) {
+      return false
+    }
+    block.appendChild(text(m))
+    return true
+  }
+
+  private linkNode(type: "link" | "image", destination: string, title: string, children: Node[]): Node {
+    const node = new Node(type)
+    node.destination = destination
+    node.title = title
+    children.forEach((child) => node.appendChild(child))
+    return node
+  }
+
+  // Determines how many delimiters of `char` are at the current position and whether they can open or close emphasis
+  private scanDelims(char: string) {
+    const startPos = this.pos
+    let numDelims = 0
+    while (this.peek() === char) {
+      numDelims++
+      this.pos++
+    }
+    if (numDelims === 0) {
+      return null
+    }
+
+    const charBefore = startPos === 0 ? "\n" : this.subject.charAt(startPos - 1)
+    const charAfter = this.peek() ?? "\n"
+    const afterIsWhitespace = reUnicodeWhitespaceChar.test(charAfter)
+    const afterIsPunctuation = rePunctuation.test(charAfter)
+    const beforeIsWhitespace = reUnicodeWhitespaceChar.test(charBefore)
+    const beforeIsPunctuation = rePunctuation.test(charBefore)
+
+    const leftFlanking = !afterIsWhitespace && (!afterIsPunctuation || beforeIsWhitespace || beforeIsPunctuation)
+    const rightFlanking = !beforeIsWhitespace && (!beforeIsPunctuation || afterIsWhitespace || afterIsPunctuation)
+
+    let canOpen = leftFlanking
+    let canClose = rightFlanking
+    if (char === "_") {
+      canOpen = leftFlanking && (!rightFlanking || beforeIsPunctuation)
+      canClose = rightFlanking && (!leftFlanking || afterIsPunctuation)
+    }
+    this.pos = startPos
+    return { numDelims, canOpen, canClose }
+  }
+
+  private handleDelim(char: string, block: Node): boolean {
+    const res = this.scanDelims(char)
+    if (!res) {
+      return false
+    }
+    const startPos = this.pos
+    this.pos += res.numDelims
+    const node = text(this.subject.slice(startPos, this.pos))
+    block.appendChild(node)
+
+    if (res.canOpen || res.canClose) {
+      this.delimiters = {
+        char,
+        numDelims: res.numDelims,
+        origDelims: res.numDelims,
+        node,
+        previous: this.delimiters,
+        next: null,
+        canOpen: res.canOpen,
+        canClose: res.canClose,
+      }
+      if (this.delimiters.previous) {
+        this.delimiters.previous.next = this.delimiters
+      }
+    }
+    return true
+  }
+
+  private removeDelimiter(delim: Delimiter) {
+    if (delim.previous !== null) {
+      delim.previous.next = delim.next
+    }
+    if (delim.next === null) {
+      this.delimiters = delim.previous
+    } else {
+      delim.next.previous = delim.previous
+    }
+  }
+
+  private processEmphasis(stackBottom: Delimiter | null) {
+    // Lower bounds for opener searches, indexed by closer char, whether it can open, and length mod 3
+    const openersBottom: (Delimiter | null)[] = new Array(12).fill(stackBottom)
+
+    let closer = this.delimiters
+    while (closer !== null && closer.previous !== stackBottom) {
+      closer = closer.previous
+    }
+
+    while (closer !== null) {
+      if (!closer.canClose) {
+        closer = closer.next
+        continue
+      }
+
+      const bottomIndex = (closer.char === "_" ? 0 : 6) + (closer.canOpen ? 3 : 0) + (closer.origDelims % 3)
+      let opener = closer.previous
+      let openerFound = false
+      while (opener !== null && opener !== stackBottom && opener !== openersBottom[bottomIndex]) {
+        const oddMatch =
+          (closer.canOpen || opener.canClose) &&
+          closer.origDelims % 3 !== 0 &&
+          (opener.origDelims + closer.origDelims) % 3 === 0
+        if (opener.char === closer.char && opener.canOpen && !oddMatch) {
+          openerFound = true
+          break
+        }
+        opener = opener.previous
+      }
+
+      const oldCloser: Delimiter = closer
+      if (!openerFound || opener === null) {
+        closer = closer.next
+        openersBottom[bottomIndex] = oldCloser.previous
+        if (!oldCloser.canOpen) {
+          this.removeDelimiter(oldCloser)
+        }
+        continue
+      }
+
+      const useDelims = closer.numDelims >= 2 && opener.numDelims >= 2 ? 2 : 1
+      const openerNode = opener.node
+      const closerNode = closer.node
+      opener.numDelims -= useDelims
+      closer.numDelims -= useDelims
+      openerNode.literal = openerNode.literal.slice(0, openerNode.literal.length - useDelims)
+      closerNode.literal = closerNode.literal.slice(0, closerNode.literal.length - useDelims)
+
+      const emphasis = new Node(useDelims === 1 ? "emphasis" : "strong")
+      let tmp = openerNode.next
+      while (tmp && tmp !== closerNode) {
+        const next: Node | null = tmp.next
+        emphasis.appendChild(tmp)
+        tmp = next
+      }
+      openerNode.insertAfter(emphasis)
+
+      // Delimiters between the opener and closer can no longer match anything
+      if (opener.next !== closer) {
+        opener.next = closer
+        closer.previous = opener
+      }
+
+      if (opener.numDelims === 0) {
+        openerNode.unlink()
+        this.removeDelimiter(opener)
+      }
+      if (closer.numDelims === 0) {
+        closerNode.unlink()
+        const nextCloser = closer.next
+        this.removeDelimiter(closer)
+        closer = nextCloser
+      }
+    }
+
+    while (this.delimiters !== null && this.delimiters !== stackBottom) {
+      this.removeDelimiter(this.delimiters)
+    }
+  }
+
+  private addBracket(node: Node, index: number, image: boolean) {
+    if (this.brackets !== null) {
+      this.brackets.bracketAfter = true
+    }
+    this.brackets = {
+      node,
+      previous: this.brackets,
+      previousDelimiter: this.delimiters,
+      index,
+      image,
+      active: true,
+      bracketAfter: false,
+    }
+  }
+
+  private removeBracket() {
+    if (this.brackets) {
+      this.brackets = this.brackets.previous
+    }
+  }
+
+  private parseOpenBracket(block: Node): boolean {
+    const startPos = this.pos
+    this.pos += 1
+    const node = text("[")
+    block.appendChild(node)
+    this.addBracket(node, startPos, false)
+    return true
+  }
+
+  private parseBang(block: Node): boolean {
+    const startPos = this.pos
+    this.pos += 1
+    if (this.peek() === "[") {
+      this.pos += 1
+      const node = text("![")
+      block.appendChild(node)
+      this.addBracket(node, startPos + 1, true)
+    } else {
+      block.appendChild(text("!"))
+    }
+    return true
+  }
+
+  private parseLinkDestination(): string | null {
+    const braced = this.match(reLinkDestinationBraces)
+    if (braced !== null) {
+      return unescapeString(braced.slice(1, -1))
+    }
+    if (this.peek() === "<") {
+      return null
+    }
+
+    const savePos = this.pos
+    let openParens = 0
+    let c: string | undefined
+    while ((c = this.peek()) !== undefined) {
+      if (c === "\\" && reEscapable.test(this.subject.charAt(this.pos + 1))) {
+        this.pos += 2
+      } else if (c === "(") {
+        this.pos += 1
+        openParens += 1
+      } else if (c === ")") {
+        if (openParens < 1) {
+          break
+        }
+        this.pos += 1
+        openParens -= 1
+      } else if (reWhitespaceChar.test(c)) {
+        break
+      } else {
+        this.pos += 1
+      }
+    }
+    if ((this.pos === savePos && c !== ")") || openParens !== 0) {
+      return null
+    }
+    return unescapeString(this.subject.slice(savePos, this.pos))
+  }
+
+  private parseLinkTitle(): string | null {
+    const title = this.match(reLinkTitle)
+    return title === null ? null : unescapeString(title.slice(1, -1))
+  }
+
+  private parseInlineLinkTarget(): { destination: string; title: string } | null {
+    const savePos = this.pos
+    if (this.peek() !== "(") {
+      return null
+    }
+    this.pos += 1
+    this.spnl()
+    const destination = this.parseLinkDestination()
+    if (destination !== null) {
+      this.spnl()
+      // A title must be separated from the destination by whitespace
+      const title = reWhitespaceChar.test(this.subject.charAt(this.pos - 1)) ? this.parseLinkTitle() : null
+      this.spnl()
+      if (this.peek() === ")") {
+        this.pos += 1
+        return { destination, title: title ?? "" }
+      }
+    }
+    this.pos = savePos
+    return null
+  }
+
+  // Returns the length of the link label at the current position, or 0 if there is none
+  private parseLinkLabel(): number {
+    const label = this.match(reLinkLabel)
+    return label === null ? 0 : label.length
+  }
+
+  // Parses a link reference definition at the start of a paragraph's raw text and records it in
+  // the refmap. Returns the number of characters consumed, or 0 if the text doesn't start with one.
+  parseReference(content: string): number {
+    this.subject = content
+    this.pos = 0
+
+    const labelLength = this.parseLinkLabel()
+    if (labelLength === 0 || this.peek() !== ":") {
+      return 0
+    }
+    const label = normalizeReference(this.subject.slice(0, labelLength))
+    this.pos += 1
+    this.spnl()
+
+    const destination = this.parseLinkDestination()
+    if (destination === null) {
+      return 0
+    }
+
+    const beforeTitle = this.pos
+    this.spnl()
+    let title = this.pos !== beforeTitle ? this.parseLinkTitle() : null
+    if (title === null) {
+      this.pos = beforeTitle
+    }
+    // The definition must end its line; a title followed by more text is dropped and the
+    // destination alone is tried instead
+    if (this.match(reSpaceAtEndOfLine) === null) {
+      if (title === null) {
+        return 0
+      }
+      title = null
+      this.pos = beforeTitle
+      if (this.match(reSpaceAtEndOfLine) === null) {
+        return 0
+      }
+    }
+
+    if (label === "") {
+      return 0
+    }
+    // The first definition of a label wins
+    if (!this.refmap.has(label)) {
+      this.refmap.set(label, { destination, title: title ?? "" })
+    }
+    return this.pos
+  }
+
+  // Resolves a full ([text][label]), collapsed ([text][]) or shortcut ([text]) reference link
+  private parseReferenceLinkTarget(opener: Bracket, labelEnd: number): LinkReference | null {
+    const savePos = this.pos
+    const beforeLabel = this.pos
+    const labelLength = this.parseLinkLabel()
+    let label = ""
+    if (labelLength > 2) {
+      label = this.subject.slice(beforeLabel, beforeLabel + labelLength)
+    } else if (!opener.bracketAfter) {
+      // An empty or missing second label uses the link text itself, which can't contain brackets
+      label = this.subject.slice(opener.index, labelEnd)
+    }
+    if (labelLength === 0) {
+      this.pos = savePos
+    }
+    const reference = label ? this.refmap.get(normalizeReference(label)) : undefined
+    if (reference === undefined) {
+      this.pos = savePos
+      return null
+    }
+    return reference
+  }
+
+  private parseCloseBracket(block: Node): boolean {
+    this.pos += 1
+    const startPos = this.pos
+    const opener = this.brackets
+    if (opener === null) {
+      block.appendChild(text("]"))
+      return true
+    }
+    if (!opener.active) {
+      block.appendChild(text("]"))
+      this.removeBracket()
+      return true
+    }
+
+    const target = this.parseInlineLinkTarget() ?? this.parseReferenceLinkTarget(opener, startPos)
+    if (target === null) {
+      this.removeBracket()
+      this.pos = startPos
+      block.appendChild(text("]"))
+      return true
+    }
+
+    const children: Node[] = []
+    for (let tmp = opener.node.next; tmp; tmp = tmp.next) {
+      children.push(tmp)
+    }
+    block.appendChild(this.linkNode(opener.image ? "image" : "link", target.destination, target.title, children))
+    this.processEmphasis(opener.previousDelimiter)
+    this.removeBracket()
+    opener.node.unlink()
+
+    // Links may not contain other links, so earlier link openers are deactivated
+    if (!opener.image) {
+      for (let earlier = this.brackets; earlier !== null; earlier = earlier.previous) {
+        if (!earlier.image) {
+          earlier.active = false
+        }
+      }
+    }
+    return true
+  }
+}
@@ -0,0 +1,128 @@
+import type { TableAlignment } from "./ast"
+
+// Mutable, doubly linked node used while parsing. The block and inline passes rearrange
+// siblings constantly (closing containers, wrapping emphasis), which a linked tree makes cheap.
+// Once parsing is done the tree is converted into the immutable shapes from ./ast.
+
+export type NodeType =
+  | "document"
+  | "blockquote"
+  | "admonition"
+  | "list"
+  | "list_item"
+  | "paragraph"
+  | "heading"
+  | "thematic_break"
+  | "code_block"
+  | "html_block"
+  | "table"
+  | "table_row"
+  | "table_cell"
+  | "text"
+  | "emphasis"
+  | "strong"
+  | "code_span"
+  | "link"
+  | "image"
+  | "soft_break"
+  | "hard_break"
+  | "html_inline"
+
+export interface ListData {
+  type: "bullet" | "ordered"
+  tight: boolean
+  bulletChar: string
+  start: number
+  delimiter: string
+  padding: number
+  markerOffset: number
+}
+
+export class Node {
+  type: NodeType
+  parent: Node | null = null
+  firstChild: Node | null = null
+  lastChild: Node | null = null
+  prev: Node | null = null
+  next: Node | null = null
+
+  open = true
+  lastLineBlank = false
+  lastLineChecked = false
+  startLine = 0
+  stringContent = ""
+  literal = ""
+
+  level = 0
+  setext = false
+  fenced = false
+  fenceChar = ""
+  fenceLength = 0
+  fenceOffset = 0
+  info = ""
+  htmlBlockType = 0
+  listData: ListData | null = null
+  align: TableAlignment[] = []
+  header = false
+  // Admonitions: lowercase kind and optional custom title (null for the default, "" for none)
+  admonitionKind = ""
+  admonitionTitle: string | null = null
+  destination = ""
+  title = ""
+
+  constructor(type: NodeType, literal = "") {
+    this.type = type
+    this.literal = literal
+  }
+
+  appendChild(child: Node) {
+    child.unlink()
+    child.parent = this
+    if (this.lastChild) {
+      this.lastChild.next = child
+      child.prev = this.lastChild
+      this.lastChild = child
+    } else {
+      this.firstChild = child
+      this.lastChild = child
+    }
+  }
+
+  insertAfter(sibling: Node) {
+    sibling.unlink()
+    sibling.next = this.next
+    if (sibling.next) {
+      sibling.next.prev = sibling
+    }
+    sibling.prev = this
+    this.next = sibling
+    sibling.parent = this.parent
+    if (sibling.parent && !sibling.next) {
+      sibling.parent.lastChild = sibling
+    }
+  }
+
+  unlink() {
+    if (this.prev) {
+      this.prev.next = this.next
+    } else if (this.parent) {
+      this.parent.firstChild = this.next
+    }
+    if (this.next) {
+      this.next.prev = this.prev
+    } else if (this.parent) {
+      this.parent.lastChild = this.prev
+    }
+    this.parent = null
+    this.next = null
+    this.prev = null
+  }
+
+  children(): Node[] {
+    const result: Node[] = []
+    for (let child = this.firstChild; child; child = child.next) {
+      result.push(child)
+    }
+    return result
+  }
+}
@@ -0,0 +1,12 @@
+import { describe, expect, it } from "vitest"
+import { parseMarkdown } from "./parser"
+
+describe("parseMarkdown extensions", () => {
+  it("ends a table at an admonition", () => {
+    const tree = parseMarkdown('| a | b |\n| - | - |\n| 1 | 2 |\n!!! note "Heads up"\n    Body text\n')
+    expect(tree.children.map((block) => block.type)).toEqual(["table", "admonition"])
+    const [table, admonition] = tree.children
+    expect(table.type === "table" && table.children.length).toBe(2)
+    expect(admonition).toMatchObject({ kind: "note", title: "Heads up" })
+  })
+})
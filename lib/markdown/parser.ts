@@ -0,0 +1,137 @@
+import type { Admonition, BlockNode, Document, Heading, InlineNode, ListItem, TableCell, TableRow } from "./ast"
+import { BlockParser } from "./blocks"
+import { InlineParser } from "./inlines"
+import { Node, type ListData } from "./node"
+
+function parseInlines(block: Node, inlineParser: InlineParser) {
+  if (block.type === "paragraph" || block.type === "heading" || block.type === "table_cell") {
+    inlineParser.parse(block)
+    return
+  }
+  for (let child = block.firstChild; child; child = child.next) {
+    parseInlines(child, inlineParser)
+  }
+}
+
+function toInlines(parent: Node): InlineNode[] {
+  const result: InlineNode[] = []
+  for (let node = parent.firstChild; node; node = node.next) {
+    switch (node.type) {
+      case "text": {
+        if (!node.literal) {
+          break
+        }
+        // Emphasis processing leaves delimiter runs as separate text nodes; merge them back
+        const previous = result[result.length - 1]
+        if (previous?.type === "text") {
+          previous.value += node.literal
+        } else {
+          result.push({ type: "text", value: node.literal })
+        }
+        break
+      }
+      case "emphasis":
+      case "strong":
+        result.push({ type: node.type, children: toInlines(node) })
+        break
+      case "link":
+      case "image":
+        result.push({ type: node.type, url: node.destination, title: node.title, children: toInlines(node) })
+        break
+      case "code_span":
+      case "html_inline":
+        result.push({ type: node.type, value: node.literal })
+        break
+      case "soft_break":
+      case "hard_break":
+        result.push({ type: node.type })
+        break
+    }
+  }
+  return result
+}
+
+const reAlertMarker = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]$/i
+
+// GitHub alerts are block quotes whose first line is only a marker such as [!NOTE]
+function alertFromBlockQuote(children: BlockNode[]): Admonition | null {
+  const [first, ...rest] = children
+  if (first?.type !== "paragraph") {
+    return null
+  }
+  const [marker, lineBreak, ...inlines] = first.children
+  const match = marker?.type === "text" ? marker.value.match(reAlertMarker) : null
+  if (!match || (lineBreak && lineBreak.type !== "soft_break" && lineBreak.type !== "hard_break")) {
+    return null
+  }
+  const body: BlockNode[] = inlines.length > 0 ? [{ type: "paragraph", children: inlines }, ...rest] : rest
+  return { type: "admonition", kind: match[1].toLowerCase(), title: null, children: body }
+}
+
+function toBlocks(parent: Node): BlockNode[] {
+  return parent.children().map((node): BlockNode => {
+    switch (node.type) {
+      case "paragraph":
+        return { type: "paragraph", children: toInlines(node) }
+      case "heading":
+        return {
+          type: "heading",
+          level: node.level as Heading["level"],
+          setext: node.setext,
+          children: toInlines(node),
+        }
+      case "thematic_break":
+        return { type: "thematic_break" }
+      case "blockquote": {
+        const children = toBlocks(node)
+        return alertFromBlockQuote(children) ?? { type: "blockquote", children }
+      }
+      case "admonition":
+        return { type: "admonition", kind: node.admonitionKind, title: node.admonitionTitle, children: toBlocks(node) }
+      case "list": {
+        const data = node.listData as ListData
+        return {
+          type: "list",
+          ordered: data.type === "ordered",
+          start: data.start,
+          tight: data.tight,
+          marker: data.type === "ordered" ? data.delimiter : data.bulletChar,
+          children: node.children().map((item): ListItem => ({ type: "list_item", children: toBlocks(item) })),
+        }
+      }
+      case "code_block":
+        return { type: "code_block", fenced: node.fenced, info: node.info, value: node.literal }
+      case "html_block":
+        return { type: "html_block", value: node.literal }
+      case "table":
+        return {
+          type: "table",
+          align: node.align,
+          children: node.children().map(
+            (row): TableRow => ({
+              type: "table_row",
+              header: row.header,
+              children: row.children().map((cell): TableCell => ({ type: "table_cell", children: toInlines(cell) })),
+            }),
+          ),
+        }
+      default:
+        throw new Error(`Unexpected block node "${node.type}"`)
+    }
+  })
+}
+
+// Parses a CommonMark document into a typed tree
+export function parseMarkdown(markdown: string): Document {
+  const inlineParser = new InlineParser()
+  // Reference definitions are stripped from paragraphs as they close, so that links anywhere in
+  // the document can resolve them during inline parsing
+  const root = new BlockParser((paragraph) => {
+    let consumed: number
+    while (paragraph.stringContent[0] === "[" && (consumed = inlineParser.parseReference(paragraph.stringContent))) {
+      paragraph.stringContent = paragraph.stringContent.slice(consumed)
+    }
+  }).parse(markdown)
+  parseInlines(root, inlineParser)
+  return { type: "document", children: toBlocks(root) }
+}
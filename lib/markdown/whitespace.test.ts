@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+import { parseMarkdown } from "./parser"
+import { collapseWhitespace } from "./whitespace"
+
+describe("collapseWhitespace", () => {
+  it("collapses runs of spaces and tabs in prose", () => {
+    const tree = collapseWhitespace(parseMarkdown("Some   spaced\t\ttext and a [link   text](a.md)"))
+    expect(tree.children[0]).toEqual(parseMarkdown("Some spaced text and a [link text](a.md)").children[0])
+  })
+
+  it("keeps code spans, code blocks and hard breaks as written", () => {
+    const tree = collapseWhitespace(parseMarkdown("`a    b` and  more  \nnext\n\n    code\n\n\n\n    more\n"))
+    expect(tree.children).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { type: "code_span", value: "a    b" },
+          { type: "text", value: " and more" },
+          { type: "hard_break" },
+          { type: "text", value: "next" },
+        ],
+      },
+      { type: "code_block", fenced: false, info: "", value: "code\n\n\n\nmore\n" },
+    ])
+  })
+})
@@ -0,0 +1,53 @@
+import type { BlockNode, Document, InlineNode } from "./ast"
+
+// Collapses runs of spaces and tabs in a document's text to single spaces. Only prose is touched:
+// code spans, code blocks and HTML keep their whitespace, and hard line breaks are nodes of their own,
+// so they survive as well. Blank lines and trailing spaces are already gone once the text is parsed.
+
+function collapseInlines(nodes: InlineNode[]): InlineNode[] {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case "text":
+        return { ...node, value: node.value.replace(/[ \t]+/g, " ") }
+      case "emphasis":
+      case "strong":
+      case "link":
+      case "image":
+        return { ...node, children: collapseInlines(node.children) }
+      default:
+        return node
+    }
+  })
+}
+
+function collapseBlocks(blocks: BlockNode[]): BlockNode[] {
+  return blocks.map((block) => {
+    switch (block.type) {
+      case "paragraph":
+      case "heading":
+        return { ...block, children: collapseInlines(block.children) }
+      case "blockquote":
+      case "admonition":
+        return { ...block, children: collapseBlocks(block.children) }
+      case "list":
+        return {
+          ...block,
+          children: block.children.map((item) => ({ ...item, children: collapseBlocks(item.children) })),
+        }
+      case "table":
+        return {
+          ...block,
+          children: block.children.map((row) => ({
+            ...row,
+            children: row.children.map((cell) => ({ ...cell, children: collapseInlines(cell.children) })),
+          })),
+        }
+      default:
+        return block
+    }
+  })
+}
+
+export function collapseWhitespace(tree: Document): Document {
+  return { ...tree, children: collapseBlocks(tree.children) }
+}
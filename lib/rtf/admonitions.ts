@@ -0,0 +1,50 @@
+interface AdmonitionStyle {
+  // Accent color for the title and the bar on the left
+  color: string
+  background: string
+}
+
+// GitHub's alert colors, extended to the kinds MkDocs Material defines
+const STYLES: Record<string, AdmonitionStyle> = {
+  note: { color: "#0969da", background: "#ddf4ff" },
+  abstract: { color: "#1b7c83", background: "#e0f7f8" },
+  info: { color: "#0969da", background: "#ddf4ff" },
+  tip: { color: "#1a7f37", background: "#dafbe1" },
+  success: { color: "#1a7f37", background: "#dafbe1" },
+  question: { color: "#6e7781", background: "#f0f2f4" },
+  important: { color: "#8250df", background: "#fbefff" },
+  warning: { color: "#9a6700", background: "#fff8c5" },
+  caution: { color: "#cf222e", background: "#ffebe9" },
+  failure: { color: "#cf222e", background: "#ffebe9" },
+  danger: { color: "#cf222e", background: "#ffebe9" },
+  bug: { color: "#cf222e", background: "#ffebe9" },
+  example: { color: "#8250df", background: "#fbefff" },
+  quote: { color: "#6e7781", background: "#f0f2f4" },
+}
+
+// MkDocs kinds that share another kind's style
+const ALIASES: Record<string, string> = {
+  summary: "abstract",
+  tldr: "abstract",
+  todo: "info",
+  hint: "tip",
+  check: "success",
+  done: "success",
+  help: "question",
+  faq: "question",
+  attention: "warning",
+  fail: "failure",
+  missing: "failure",
+  error: "danger",
+  cite: "quote",
+}
+
+// Unknown kinds are styled as notes
+export function admonitionStyle(kind: string): AdmonitionStyle {
+  return STYLES[ALIASES[kind] ?? kind] ?? STYLES.note
+}
+
+// The title shown when none is given: the kind as written, capitalized ("hint" -> "Hint")
+export function defaultAdmonitionTitle(kind: string): string {
+  return kind.charAt(0).toUpperCase() + kind.slice(1).replace(/[-_]+/g, " ")
+}
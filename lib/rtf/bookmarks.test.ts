@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest"
+import { parseMarkdown } from "@/lib/markdown/parser"
+import { BookmarkTable } from "./bookmarks"
+
+function table(paths: string[]): BookmarkTable {
+  const bookmarks = new BookmarkTable()
+  for (const path of paths) {
+    bookmarks.addFile(path, parseMarkdown("# Setup\n"))
+  }
+  return bookmarks
+}
+
+describe("BookmarkTable.resolve", () => {
+  it("jumps to files with any of the markdown extensions", () => {
+    const bookmarks = table(["docs/a.md", "docs/b.mdx", "docs/c.txt"])
+    expect(bookmarks.resolve("docs/a.md", "b.mdx", "docs")).toEqual({ type: "bookmark", name: "docs_b" })
+    expect(bookmarks.resolve("docs/a.md", "/c.txt#setup", "docs")).toEqual({ type: "bookmark", name: "docs_c_setup" })
+    expect(bookmarks.resolve("docs/a.md", "gone.MDX", "docs")).toEqual({ type: "missing" })
+  })
+
+  it("uses the configured extensions", () => {
+    const bookmarks = table(["docs/a.md", "docs/b.rmd"])
+    expect(bookmarks.resolve("docs/a.md", "b.rmd", "docs")).toEqual({ type: "external" })
+    const extensions = [".md", ".rmd"]
+    expect(bookmarks.resolve("docs/a.md", "b.rmd", "docs", extensions)).toEqual({ type: "bookmark", name: "docs_b" })
+    expect(bookmarks.resolve("docs/a.md", "b.mdx", "docs", extensions)).toEqual({ type: "external" })
+  })
+})
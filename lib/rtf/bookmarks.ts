@@ -0,0 +1,107 @@
+import { decodeUrlComponent, isExternalUrl, resolveUrlPath } from "@/lib/archive/paths"
+import type { Document, Heading } from "@/lib/markdown/ast"
+import { collectHeadings, inlineText } from "@/lib/markdown/ast"
+import { DEFAULT_MARKDOWN_EXTENSIONS, markdownExtension } from "@/lib/markdown/files"
+
+// Word ignores bookmark names beyond 40 characters
+const MAX_BOOKMARK_LENGTH = 40
+const reExtension = /\.[^./]*$/
+
+// Where a link in a converted file points
+export type LinkTarget =
+  | { type: "external" }
+  | { type: "bookmark"; name: string }
+  // A markdown file that isn't part of the combined document
+  | { type: "missing" }
+
+interface FileBookmarks {
+  name: string
+  // Heading bookmark names by anchor slug
+  anchors: Map<string, string>
+}
+
+// Anchor slugs as GitHub generates them: lowercased, punctuation dropped and spaces turned into hyphens
+export function headingSlug(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[!-,./:-@[-^`{-~\u00a1-\u00bf\u2000-\u206f\u2e00-\u2e7f\u3000-\u303f]/g, "")
+    .replace(/\s/g, "-")
+}
+
+// Assigns RTF bookmarks to every converted file and its headings, so links between files in the
+// archive can become internal jumps. Files are registered before any are rendered, which lets a
+// link resolve to a file that comes later in the combined document.
+export class BookmarkTable {
+  private readonly files = new Map<string, FileBookmarks>()
+  private readonly headings = new Map<Heading, string>()
+  private readonly names = new Set<string>()
+
+  addFile(path: string, tree: Document) {
+    const base = path.replace(reExtension, "")
+    const file: FileBookmarks = { name: this.uniqueName(base), anchors: new Map() }
+    const slugCounts = new Map<string, number>()
+    for (const heading of collectHeadings(tree.children)) {
+      // Repeated headings get -1, -2, ... appended, as on GitHub
+      let slug = headingSlug(inlineText(heading.children))
+      const count = slugCounts.get(slug) ?? 0
+      slugCounts.set(slug, count + 1)
+      if (count > 0) {
+        slug += `-${count}`
+      }
+      const name = this.uniqueName(`${base}_${slug}`)
+      file.anchors.set(slug, name)
+      this.headings.set(heading, name)
+    }
+    this.files.set(path, file)
+  }
+
+  fileBookmark(path: string): string | undefined {
+    return this.files.get(path)?.name
+  }
+
+  headingBookmark(heading: Heading): string | undefined {
+    return this.headings.get(heading)
+  }
+
+  // Resolves a link found in the file at fromPath, from the source at root. Same-file anchors and
+  // relative links to files with one of the markdown extensions jump to a bookmark; anything else is
+  // left to the viewer.
+  resolve(fromPath: string, url: string, root = "", extensions = DEFAULT_MARKDOWN_EXTENSIONS): LinkTarget {
+    if (isExternalUrl(url)) {
+      return { type: "external" }
+    }
+    const hash = url.indexOf("#")
+    const path = (hash < 0 ? url : url.slice(0, hash)).replace(/\?.*$/, "")
+    const anchor = hash < 0 ? "" : decodeUrlComponent(url.slice(hash + 1)).toLowerCase()
+    if (path === "" ? anchor === "" : !markdownExtension(decodeUrlComponent(path), extensions)) {
+      return { type: "external" }
+    }
+
+    const file = this.files.get(path === "" ? fromPath : resolveUrlPath(fromPath, path, root))
+    if (!file) {
+      return { type: "missing" }
+    }
+    // An anchor that matches no heading still lands on the right file
+    return { type: "bookmark", name: file.anchors.get(anchor) ?? file.name }
+  }
+
+  // Bookmark names may only hold letters, digits and underscores and must start with a letter
+  private uniqueName(text: string): string {
+    let base = text
+      .normalize("NFD")
+      .replace(/[^A-Za-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "")
+    if (!/^[A-Za-z]/.test(base)) {
+      base = `md_${base}`
+    }
+    base = base.slice(0, MAX_BOOKMARK_LENGTH)
+    let name = base
+    for (let n = 2; this.names.has(name); n++) {
+      const suffix = `_${n}`
+      name = base.slice(0, MAX_BOOKMARK_LENGTH - suffix.length) + suffix
+    }
+    this.names.add(name)
+    return name
+  }
+}
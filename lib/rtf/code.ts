@@ -0,0 +1,52 @@
+import { CODE_THEMES, type CodeThemeName } from "@/lib/highlight/themes"
+import { findGrammar, tokenize } from "@/lib/highlight/tokenize"
+import type { RtfDocument } from "./document"
+import { escapeRTF } from "./encode"
+
+const CODE_BACKGROUND = "#f2f2f2"
+const CODE_FONT = "\\f1\\fs16"
+
+// Escapes code text, turning line breaks into \line so the block stays a single paragraph
+function verbatim(text: string): string {
+  return text.split("\n").map(escapeRTF).join("\\line ")
+}
+
+function highlighted(code: string, info: string, themeName: CodeThemeName, document: RtfDocument): string | null {
+  const grammar = findGrammar(info)
+  if (!grammar) {
+    return null
+  }
+  const theme = CODE_THEMES[themeName]
+  const foreground = document.colors.index(theme.foreground)
+  const content = tokenize(code, grammar)
+    .map((token) => {
+      const color = theme.colors[token.type]
+      return color ? `{\\cf${document.colors.index(color)} ${verbatim(token.value)}}` : verbatim(token.value)
+    })
+    .join("")
+  return `\\cbpat${document.colors.index(theme.background)} {${CODE_FONT}\\cf${foreground} ${content}}`
+}
+
+// Renders a code block verbatim as a single shaded paragraph: lines are joined with \line so the
+// shading stays continuous, and indentation and tabs are kept as written. Blocks tagged with a
+// known language are colored with the theme when one is selected; others stay plain monospace.
+// paragraphStart is the \pard with the indent and formatting of the enclosing blocks.
+export function renderCodeBlock(
+  value: string,
+  info: string,
+  paragraphStart: string,
+  theme: CodeThemeName | null,
+  document: RtfDocument,
+): string {
+  const code = value.replace(/\n$/, "")
+  const content =
+    (theme && highlighted(code, info, theme, document)) ??
+    `\\cbpat${document.colors.index(CODE_BACKGROUND)} {${CODE_FONT} ${verbatim(code)}}`
+  // Restarting the paragraph after the block keeps the shading from carrying over to the blank line
+  return `${paragraphStart}${content}\\par${paragraphStart}\\par`
+}
+
+export function renderCodeSpan(value: string, document: RtfDocument): string {
+  const background = document.colors.index(CODE_BACKGROUND)
+  return `{\\f1\\chcbpat${background} ${escapeRTF(value)}}`
+}
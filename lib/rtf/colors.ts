@@ -0,0 +1,27 @@
+// Collects the colors used by the document into a \colortbl. Index 0 is reserved for the
+// reader's automatic color, so registered colors start at 1.
+export class ColorTable {
+  private colors: string[] = []
+
+  // Returns the \colortbl index for a hex color such as "#f2f2f2", registering it on first use
+  index(hex: string): number {
+    const color = hex.replace(/^#/, "").toLowerCase()
+    let position = this.colors.indexOf(color)
+    if (position === -1) {
+      this.colors.push(color)
+      position = this.colors.length - 1
+    }
+    return position + 1
+  }
+
+  toRTF(): string {
+    if (this.colors.length === 0) {
+      return ""
+    }
+    const entries = this.colors.map((color) => {
+      const [red, green, blue] = [0, 2, 4].map((offset) => parseInt(color.slice(offset, offset + 2), 16))
+      return `\\red${red}\\green${green}\\blue${blue};`
+    })
+    return `{\\colortbl;${entries.join("")}}`
+  }
+}
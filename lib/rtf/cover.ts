@@ -0,0 +1,89 @@
+import type { DocumentInfo } from "./document"
+import { escapeRTF } from "./encode"
+import { renderPicture, type EmbeddedImage } from "./images"
+import { NORMAL_STYLE } from "./styles"
+
+export type DateFormat = "long" | "medium" | "short" | "iso"
+
+export interface CoverPage {
+  title: string
+  // "{count}" is replaced with the number of converted files
+  subtitle: string
+  author: string
+  organization: string
+  // yyyy-mm-dd as entered in a date input; empty leaves the date off
+  date: string
+  dateFormat: DateFormat
+  version: string
+}
+
+export const DEFAULT_COVER_PAGE: CoverPage = {
+  title: "Combined Markdown Document",
+  subtitle: "Generated from {count} selected markdown files",
+  author: "",
+  organization: "",
+  date: "",
+  dateFormat: "long",
+  version: "",
+}
+
+// Logos are shown at most 2" wide
+const LOGO_MAX_WIDTH = 2880
+
+// Parses the yyyy-mm-dd value of a date input as a local date
+function parseDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null
+}
+
+export function formatCoverDate(value: string, format: DateFormat): string {
+  const date = parseDate(value)
+  if (!date) {
+    return ""
+  }
+  return format === "iso" ? value : date.toLocaleDateString(undefined, { dateStyle: format })
+}
+
+function subtitleText(cover: CoverPage, fileCount: number): string {
+  return cover.subtitle.replace(/\{count\}/g, String(fileCount))
+}
+
+// Document properties taken from the cover page; the creation time is the cover date when one is set
+export function coverDocumentInfo(cover: CoverPage, fileCount: number): DocumentInfo {
+  return {
+    title: cover.title.trim(),
+    subject: subtitleText(cover, fileCount).trim(),
+    author: cover.author.trim(),
+    company: cover.organization.trim(),
+    comment: cover.version.trim() && `Version ${cover.version.trim()}`,
+    created: parseDate(cover.date) ?? new Date(),
+  }
+}
+
+// Renders the cover as the first page of the document: the logo and title centered in the upper
+// third, followed by the details that were filled in
+export function renderCoverPage(cover: CoverPage, fileCount: number, logo: EmbeddedImage | null): string {
+  const line = (content: string, spaceAfter = 0) =>
+    `\\pard\\s${NORMAL_STYLE}\\qc${spaceAfter ? `\\sa${spaceAfter}` : ""} ${content}\\par`
+
+  let rtf = `\\pard\\s${NORMAL_STYLE}\\qc\\sb2880\\par`
+  if (logo) {
+    rtf += line(renderPicture(logo, LOGO_MAX_WIDTH), 480)
+  }
+  if (cover.title.trim()) {
+    rtf += line(`{\\b\\fs48 ${escapeRTF(cover.title.trim())}}`, 240)
+  }
+  const subtitle = subtitleText(cover, fileCount).trim()
+  if (subtitle) {
+    rtf += line(`{\\i\\fs28 ${escapeRTF(subtitle)}}`, 960)
+  }
+
+  const date = formatCoverDate(cover.date, cover.dateFormat)
+  const version = cover.version.trim() && `Version ${cover.version.trim()}`
+  for (const detail of [cover.author, cover.organization, date, version]) {
+    if (detail.trim()) {
+      rtf += line(`{\\fs28 ${escapeRTF(detail.trim())}}`, 120)
+    }
+  }
+  return rtf + "\\page"
+}
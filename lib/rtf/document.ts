@@ -0,0 +1,57 @@
+import { BookmarkTable } from "./bookmarks"
+import { ColorTable } from "./colors"
+import { ANSI_CODE_PAGE, escapeRTF } from "./encode"
+import { ImageTable } from "./images"
+import { ListTable } from "./lists"
+import { STYLESHEET } from "./styles"
+
+const FONT_TABLE = "{\\fonttbl {\\f0 Times New Roman;}{\\f1 Courier New;}}"
+
+// Document properties shown by word processors (File > Properties in Word)
+export interface DocumentInfo {
+  title?: string
+  subject?: string
+  author?: string
+  company?: string
+  comment?: string
+  created?: Date
+}
+
+function infoGroup(info: DocumentInfo): string {
+  const fields: [string, string | undefined][] = [
+    ["title", info.title],
+    ["subject", info.subject],
+    ["author", info.author],
+    ["company", info.company],
+    ["doccomm", info.comment],
+  ]
+  let rtf = fields
+    .filter(([, value]) => value)
+    .map(([name, value]) => `{\\${name} ${escapeRTF(value as string)}}`)
+    .join("")
+  const created = info.created
+  if (created) {
+    const time = `\\yr${created.getFullYear()}\\mo${created.getMonth() + 1}\\dy${created.getDate()}`
+    rtf += `{\\creatim${time}\\hr${created.getHours()}\\min${created.getMinutes()}}`
+  }
+  return rtf ? `{\\info${rtf}}` : ""
+}
+
+// Document-wide state shared by all converted files. Fragments register the colors and list definitions
+// they use while rendering; the header containing those tables is written once everything is rendered.
+export class RtfDocument {
+  readonly colors = new ColorTable()
+  readonly lists = new ListTable()
+  readonly bookmarks = new BookmarkTable()
+  readonly images = new ImageTable()
+  // Problems worth telling the user about that don't stop the conversion, like missing images
+  readonly warnings = new Set<string>()
+
+  constructor(readonly info: DocumentInfo = {}) {}
+
+  header(): string {
+    const tables = FONT_TABLE + this.colors.toRTF() + STYLESHEET + this.lists.toRTF()
+    // The info group follows the tables, as the RTF specification orders the header
+    return `{\\rtf1\\ansi\\ansicpg${ANSI_CODE_PAGE}\\uc1\\deff0 ${tables}${infoGroup(this.info)}\\f0\\fs24`
+  }
+}
@@ -0,0 +1,94 @@
+// Text encoding for RTF output. Everything outside printable ASCII is written as a `\uN?`
+// Unicode escape followed by a single-byte fallback for readers without Unicode support.
+
+// Windows-1252 is declared via \ansicpg and used for the fallback characters
+export const ANSI_CODE_PAGE = 1252
+
+// Fallback bytes that Windows-1252 assigns in the 0x80-0x9F range
+const CP1252_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80,
+  0x201a: 0x82,
+  0x0192: 0x83,
+  0x201e: 0x84,
+  0x2026: 0x85,
+  0x2020: 0x86,
+  0x2021: 0x87,
+  0x02c6: 0x88,
+  0x2030: 0x89,
+  0x0160: 0x8a,
+  0x2039: 0x8b,
+  0x0152: 0x8c,
+  0x017d: 0x8e,
+  0x2018: 0x91,
+  0x2019: 0x92,
+  0x201c: 0x93,
+  0x201d: 0x94,
+  0x2022: 0x95,
+  0x2013: 0x96,
+  0x2014: 0x97,
+  0x02dc: 0x98,
+  0x2122: 0x99,
+  0x0161: 0x9a,
+  0x203a: 0x9b,
+  0x0153: 0x9c,
+  0x017e: 0x9e,
+  0x0178: 0x9f,
+}
+
+function hexByte(byte: number): string {
+  return `\\'${byte.toString(16).padStart(2, "0")}`
+}
+
+// Single-byte fallback for a code point: the Windows-1252 byte if there is one,
+// otherwise the unaccented base letter, otherwise "?"
+function ansiFallback(codePoint: number): string {
+  if (codePoint >= 0xa0 && codePoint <= 0xff) {
+    return hexByte(codePoint)
+  }
+  const extra = CP1252_EXTRAS[codePoint]
+  if (extra !== undefined) {
+    return hexByte(extra)
+  }
+  const base = String.fromCodePoint(codePoint).normalize("NFD")[0]
+  return /^[A-Za-z]$/.test(base) ? base : "?"
+}
+
+// \uN takes a signed 16-bit value
+function unicodeEscape(codeUnit: number): string {
+  return `\\u${codeUnit > 0x7fff ? codeUnit - 0x10000 : codeUnit}`
+}
+
+function encodeCodePoint(codePoint: number): string {
+  if (codePoint <= 0xffff) {
+    // A letter right after \uN would be read as part of the control word, so it needs a space first
+    const fallback = ansiFallback(codePoint)
+    return unicodeEscape(codePoint) + (/^[A-Za-z]/.test(fallback) ? " " : "") + fallback
+  }
+  // Characters outside the BMP are written as a surrogate pair with a single fallback
+  const offset = codePoint - 0x10000
+  const high = 0xd800 + (offset >> 10)
+  const low = 0xdc00 + (offset & 0x3ff)
+  return `${unicodeEscape(high)}?${unicodeEscape(low)}?`
+}
+
+// Escapes text for use inside an RTF group: `\`, `{` and `}` are escaped, tabs become
+// \tab and non-ASCII characters are written as Unicode escapes
+export function escapeRTF(text: string): string {
+  let result = ""
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) as number
+    if (char === "\\" || char === "{" || char === "}") {
+      result += `\\${char}`
+    } else if (char === "\t") {
+      result += "\\tab "
+    } else if (codePoint >= 0x20 && codePoint < 0x7f) {
+      result += char
+    } else if (codePoint < 0x20 || codePoint === 0x7f) {
+      // Other control characters have no meaning in RTF text
+      continue
+    } else {
+      result += encodeCodePoint(codePoint)
+    }
+  }
+  return result
+}
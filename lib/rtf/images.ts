@@ -0,0 +1,130 @@
+import { isExternalUrl, resolveUrlPath } from "@/lib/archive/paths"
+import { visitInlines, type Document } from "@/lib/markdown/ast"
+
+// Formats RTF readers accept as embedded blips
+export type ImageFormat = "png" | "jpeg"
+
+export interface EmbeddedImage {
+  format: ImageFormat
+  // Size in pixels
+  width: number
+  height: number
+  // Pixels per inch the image is laid out at; rasterized images are denser than the 96 of the screen
+  dpi: number
+  data: Uint8Array
+}
+
+export const SCREEN_DPI = 96
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+const HEX = Array.from({ length: 256 }, (_, byte) => byte.toString(16).padStart(2, "0"))
+
+function readUint16(data: Uint8Array, offset: number): number {
+  return (data[offset] << 8) | data[offset + 1]
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0
+}
+
+// The first chunk of a PNG is always IHDR, which starts with the width and height
+function pngSize(data: Uint8Array): [number, number] | null {
+  if (data.length < 24 || PNG_SIGNATURE.some((byte, i) => data[i] !== byte)) {
+    return null
+  }
+  return [readUint32(data, 16), readUint32(data, 20)]
+}
+
+// Walks the JPEG segments up to the start-of-frame marker, which holds the image size
+function jpegSize(data: Uint8Array): [number, number] | null {
+  if (data[0] !== 0xff || data[1] !== 0xd8) {
+    return null
+  }
+  let offset = 2
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return null
+    }
+    const marker = data[offset + 1]
+    if (marker === 0xff) {
+      // Fill byte before a marker
+      offset += 1
+      continue
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC) which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return [readUint16(data, offset + 7), readUint16(data, offset + 5)]
+    }
+    offset += 2 + readUint16(data, offset + 2)
+  }
+  return null
+}
+
+// Identifies a PNG or JPEG from its bytes and reads its pixel size; other data gives null
+export function readImage(data: Uint8Array, dpi = SCREEN_DPI): EmbeddedImage | null {
+  const png = pngSize(data)
+  if (png) {
+    return { format: "png", width: png[0], height: png[1], dpi, data }
+  }
+  const jpeg = jpegSize(data)
+  if (jpeg) {
+    return { format: "jpeg", width: jpeg[0], height: jpeg[1], dpi, data }
+  }
+  return null
+}
+
+// Archive paths of the local images a markdown file from the source at root references
+export function referencedImages(path: string, tree: Document, root = ""): string[] {
+  const paths = new Set<string>()
+  visitInlines(tree.children, (node) => {
+    if (node.type === "image" && !isExternalUrl(node.url)) {
+      paths.add(resolveUrlPath(path, node.url, root))
+    }
+  })
+  return Array.from(paths)
+}
+
+// Images available for embedding, keyed by their path in the archive, along with the reasons
+// images that are in the archive couldn't be embedded
+export class ImageTable {
+  private readonly images = new Map<string, EmbeddedImage>()
+  private readonly failures = new Map<string, string>()
+
+  add(path: string, data: Uint8Array, dpi = SCREEN_DPI) {
+    const image = readImage(data, dpi)
+    if (image) {
+      this.images.set(path, image)
+    } else {
+      this.fail(path, "is not a PNG or JPEG image")
+    }
+  }
+
+  fail(path: string, reason: string) {
+    this.failures.set(path, reason)
+  }
+
+  get(path: string): EmbeddedImage | undefined {
+    return this.images.get(path)
+  }
+
+  failure(path: string): string | undefined {
+    return this.failures.get(path)
+  }
+}
+
+// Renders an image as a \pict group with its bytes as hex. The display size follows the image's
+// dpi, scaled down proportionally when wider than maxWidth (in twips).
+export function renderPicture(image: EmbeddedImage, maxWidth: number): string {
+  const twipsPerPixel = 1440 / image.dpi
+  let width = Math.round(image.width * twipsPerPixel)
+  let height = Math.round(image.height * twipsPerPixel)
+  if (width > maxWidth) {
+    height = Math.round((height * maxWidth) / width)
+    width = maxWidth
+  }
+  const hex = new Array<string>(image.data.length)
+  for (let i = 0; i < image.data.length; i++) {
+    hex[i] = HEX[image.data[i]]
+  }
+  const size = `\\picw${image.width}\\pich${image.height}\\picwgoal${width}\\pichgoal${height}`
+  return `{\\pict\\${image.format}blip${size} ${hex.join("")}}`
+}
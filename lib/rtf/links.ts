@@ -0,0 +1,65 @@
+import type { RtfDocument } from "./document"
+import { escapeRTF } from "./encode"
+
+// Word's default hyperlink color
+const LINK_COLOR = "#0563c1"
+
+// Percent-encodes everything a field instruction can't hold literally (quotes, spaces, RTF
+// specials, non-ASCII), leaving escapes already present in the URL alone
+function encodeUrl(url: string): string {
+  return url.replace(/%(?![\da-fA-F]{2})|["\\{}]|[^\x21-\x7e]/gu, (char) => {
+    try {
+      return encodeURIComponent(char)
+    } catch {
+      // Lone surrogates can't be encoded
+      return ""
+    }
+  })
+}
+
+export function field(instruction: string, result: string): string {
+  return `{\\field{\\*\\fldinst ${instruction}}{\\fldrslt ${result}}}`
+}
+
+function hyperlinkField(instruction: string, content: string, document: RtfDocument): string {
+  const color = document.colors.index(LINK_COLOR)
+  return field(`HYPERLINK ${instruction}`, `{\\ul\\cf${color} ${content}}`)
+}
+
+// Renders already-rendered link text as a clickable HYPERLINK field. With appendUrl, the target
+// is also printed after the text unless the text already shows it (as autolinks do).
+export function renderHyperlink(
+  url: string,
+  content: string,
+  plainText: string,
+  appendUrl: boolean,
+  document: RtfDocument,
+): string {
+  const field = hyperlinkField(`"${encodeUrl(url)}"`, content, document)
+  const shown = url.replace(/^mailto:/i, "")
+  if (!appendUrl || plainText === url || plainText === shown) {
+    return field
+  }
+  return `${field} (${escapeRTF(shown)})`
+}
+
+// Renders link text as a jump to a bookmark elsewhere in the document
+export function renderInternalLink(bookmark: string, content: string, document: RtfDocument): string {
+  // \\l is escaped once more for RTF, leaving the field switch \l in the instruction
+  return hyperlinkField(`\\\\l "${bookmark}"`, content, document)
+}
+
+// A jump to a bookmark without link styling, for generated entries like those of the table of contents
+export function renderPlainInternalLink(bookmark: string, content: string): string {
+  return field(`HYPERLINK \\\\l "${bookmark}"`, content)
+}
+
+// The page number of a bookmark; left empty until Word updates fields, which it does before printing
+export function renderPageReference(bookmark: string): string {
+  return field(`PAGEREF ${bookmark} \\\\h`, "")
+}
+
+// Marks content as the target of a bookmark
+export function renderBookmark(name: string, content: string): string {
+  return `{\\*\\bkmkstart ${name}}${content}{\\*\\bkmkend ${name}}`
+}
@@ -0,0 +1,50 @@
+import type { List } from "@/lib/markdown/ast"
+
+// Word supports nine list levels (\ilvl0 - \ilvl8)
+export const MAX_LIST_LEVEL = 8
+const LEVEL_INDENT = 360
+
+const BULLETS = ["\\u8226 ?", "\\u9702 ?", "\\u9642 ?"]
+
+function levelDefinition(list: List, level: number): string {
+  const indent = (level + 1) * LEVEL_INDENT
+  const format = list.ordered
+    ? `\\levelnfc0\\levelnfcn0{\\leveltext\\'02\\'0${level}${list.marker};}{\\levelnumbers\\'01;}`
+    : `\\levelnfc23\\levelnfcn23{\\leveltext\\'01${BULLETS[level % BULLETS.length]};}{\\levelnumbers;}`
+  return (
+    `{\\listlevel${format}\\leveljc0\\leveljcn0\\levelfollow0\\levelstartat${list.start}` +
+    `\\levelspace0\\levelindent0\\fi-${LEVEL_INDENT}\\li${indent}\\jclisttab\\tx${indent}}`
+  )
+}
+
+// Collects a \list definition for every markdown list so Word treats them as real lists.
+// Each list gets its own override, which restarts numbering for every list in the document.
+export class ListTable {
+  private definitions: string[] = []
+
+  // Registers a list and returns the \ls index its paragraphs refer to
+  add(list: List): number {
+    const id = this.definitions.length + 1
+    let levels = ""
+    for (let level = 0; level <= MAX_LIST_LEVEL; level++) {
+      levels += levelDefinition(list, level)
+    }
+    this.definitions.push(`{\\list\\listtemplateid${id}${levels}{\\listname ;}\\listid${id}}`)
+    return id
+  }
+
+  toRTF(): string {
+    if (this.definitions.length === 0) {
+      return ""
+    }
+    const overrides = this.definitions
+      .map((_, index) => `{\\listoverride\\listid${index + 1}\\listoverridecount0\\ls${index + 1}}`)
+      .join("")
+    return `{\\*\\listtable${this.definitions.join("")}}{\\*\\listoverridetable${overrides}}`
+  }
+}
+
+// Marker text for the \listtext fallback shown by readers without list support
+export function listMarkerText(list: List, index: number): string {
+  return list.ordered ? `${list.start + index}${list.marker}` : "\\bullet"
+}
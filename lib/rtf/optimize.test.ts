@@ -0,0 +1,309 @@
+import { describe, expect, it } from "vitest"
+import { parseMarkdown } from "@/lib/markdown/parser"
+import { RtfDocument } from "./document"
+import {
+  OPTIMIZATION_PASSES,
+  OPTIMIZATION_PRESETS,
+  optimizeRTF,
+  type OptimizationPass,
+  type OptimizationPreset,
+} from "./optimize"
+import { DEFAULT_PAGE_SETUP, renderPageSetup } from "./page"
+import { DEFAULT_RENDER_OPTIONS, markdownToRTF } from "./render"
+import { parseRTF, type RtfNode } from "./syntax"
+
+// Optimized RTF has to read the same as the original: every character in the same bold, italic,
+// font, size and colour. An interpreter independent of the optimizer checks that for each pass and
+// preset on a document with every kind of block the renderer produces.
+
+const GUIDE = `# Guide \u00e9t\u00e9
+
+Some *emphasis*, **strong**, ***both*** and \`inline   code\` with a hard
+break, [a link](https://example.com "Title") and a [link to the notes](notes.md#setup).
+
+## Lists
+
+1. First item
+2. Second item
+   - Nested bullet with **bold**
+   - Another
+
+- Loose item
+
+- With \u00fcml\u00e4ut, \u4e2d\u6587, \u0101 and \u{1f600}
+
+> A quote with _italic_ text.
+
+!!! warning "Careful"
+    Admonition body.
+
+| Left | Center | Right |
+| :--- | :----: | ----: |
+| a    | **b**  | \`c\`   |
+
+\`\`\`ts
+const greeting: string = "hello" // comment
+\`\`\`
+
+    indented   code
+
+---
+`
+
+const NOTES = `# Notes
+
+## Setup
+
+Text that links [back](guide.md).
+`
+
+function renderSample(): string {
+  const document = new RtfDocument({ title: "Sample" })
+  const sources = [
+    { name: "Guide", path: "guide.md", source: "", tree: parseMarkdown(GUIDE) },
+    { name: "Notes", path: "notes.md", source: "", tree: parseMarkdown(NOTES) },
+  ]
+  for (const source of sources) {
+    document.bookmarks.addFile(source.path, source.tree)
+  }
+  const body = sources.map((source) => markdownToRTF(source, document, DEFAULT_RENDER_OPTIONS)).join("\\page ")
+  const variables = { title: "Sample", filename: "sample", date: "today" }
+  return document.header() + renderPageSetup({ ...DEFAULT_PAGE_SETUP, header: "{title}" }, variables) + body + "}"
+}
+
+// Written by hand with something for every pass to remove: line breaks in the text flow, formatting
+// that's overridden or already in effect, an unused font and groups that can be merged
+const HAND_WRITTEN = [
+  "{\\rtf1\\ansi\\ansicpg1252\\uc1\\deff0",
+  "{\\fonttbl {\\f0 Times New Roman;}{\\f1 Courier New;}{\\f2 Arial;}{\\f3 Georgia;}}",
+  "{\\colortbl ;\\red192\\green0\\blue0;\\red0\\green0\\blue160;}",
+  "\\f0\\fs24 \\pard\\plain \\fs24 {\\b\\b Bold}{\\b  twice} {\\i\\i0 plain} {\\cf1 red}{\\cf1  still red}",
+  "\\line {\\f2\\fs20 Arial {\\f1 code\\f1  here}} \\u233 ?t\\u233 ? {\\cf2\\cf2 blue\\par}",
+  "{\\b\\i\\b0 italic only}{}\\par",
+  "}",
+].join("\n")
+
+interface CharacterState {
+  bold: boolean
+  italic: boolean
+  font: string
+  size: number
+  color: string
+}
+
+interface TextRun extends CharacterState {
+  text: string
+}
+
+// Destinations whose contents aren't shown as text
+const HIDDEN_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "info",
+  "pict",
+  "listtable",
+  "listoverridetable",
+])
+
+// Control words that stand for a character of the text
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  par: "\n",
+  line: "\u2028",
+  tab: "\t",
+  cell: "|",
+  row: "\n",
+  page: "\f",
+  sect: "\f",
+}
+
+function groupName(group: RtfNode[]): string {
+  const [first] = group
+  if (first?.type === "symbol" && first.symbol === "*") {
+    return "*"
+  }
+  return first?.type === "word" ? first.name : ""
+}
+
+function groupText(nodes: RtfNode[]): string {
+  return nodes
+    .map((node) => (node.type === "text" ? node.value : node.type === "group" ? groupText(node.children) : ""))
+    .join("")
+}
+
+// Font names by number, from the font table
+function readFonts(group: RtfNode[]): Map<number, string> {
+  const fonts = new Map<number, string>()
+  for (const node of group) {
+    if (node.type === "group") {
+      const number = node.children.find((child) => child.type === "word" && child.name === "f")
+      if (number?.type === "word" && number.param !== null) {
+        fonts.set(number.param, groupText(node.children).replace(/;\s*$/, "").trim())
+      }
+    }
+  }
+  return fonts
+}
+
+// Colours by index as "r,g,b", from the colour table; index 0 is the reader's default colour
+function readColors(group: RtfNode[]): string[] {
+  const colors: string[] = []
+  let rgb = { red: 0, green: 0, blue: 0 }
+  let defined = false
+  for (const node of group) {
+    if (node.type === "word" && (node.name === "red" || node.name === "green" || node.name === "blue")) {
+      rgb = { ...rgb, [node.name]: node.param ?? 0 }
+      defined = true
+    } else if (node.type === "text") {
+      for (const char of node.value) {
+        if (char === ";") {
+          colors.push(defined ? `${rgb.red},${rgb.green},${rgb.blue}` : "auto")
+          rgb = { red: 0, green: 0, blue: 0 }
+          defined = false
+        }
+      }
+    }
+  }
+  return colors
+}
+
+function findGroup(nodes: RtfNode[], name: string): RtfNode[] | null {
+  for (const node of nodes) {
+    if (node.type === "group") {
+      if (groupName(node.children) === name) {
+        return node.children
+      }
+      const nested = findGroup(node.children, name)
+      if (nested) {
+        return nested
+      }
+    }
+  }
+  return null
+}
+
+// The document's text as runs of characters with the same formatting
+function interpret(rtf: string): TextRun[] {
+  const tree = parseRTF(rtf)
+  const fonts = readFonts(findGroup(tree, "fonttbl") ?? [])
+  const colors = readColors(findGroup(tree, "colortbl") ?? [])
+  const fontName = (number: number) => fonts.get(number) ?? `missing font ${number}`
+  const colorValue = (index: number) => colors[index] ?? `missing colour ${index}`
+  const plain = (): CharacterState => ({ bold: false, italic: false, font: fontName(0), size: 24, color: "auto" })
+
+  const runs: TextRun[] = []
+  // Fallback characters still to skip after a \uN
+  let skip = 0
+  let unicodeSkip = 1
+  const emit = (text: string, state: CharacterState) => {
+    const last = runs[runs.length - 1]
+    const same =
+      last &&
+      last.bold === state.bold &&
+      last.italic === state.italic &&
+      last.font === state.font &&
+      last.size === state.size &&
+      last.color === state.color
+    if (same) {
+      last.text += text
+    } else {
+      runs.push({ ...state, text })
+    }
+  }
+  const fallback = (text: string, state: CharacterState) => {
+    for (const char of text) {
+      if (skip > 0) {
+        skip--
+      } else {
+        emit(char, state)
+      }
+    }
+  }
+
+  const walk = (nodes: RtfNode[], state: CharacterState) => {
+    for (const node of nodes) {
+      switch (node.type) {
+        case "group": {
+          const name = groupName(node.children)
+          if (name !== "*" && !HIDDEN_DESTINATIONS.has(name)) {
+            walk(node.children, { ...state })
+          }
+          break
+        }
+        case "text":
+          fallback(node.value, state)
+          break
+        case "symbol": {
+          const { symbol } = node
+          fallback(symbol.startsWith("'") ? String.fromCharCode(parseInt(symbol.slice(1), 16)) : symbol, state)
+          break
+        }
+        case "binary":
+          break
+        case "word": {
+          const param = node.param
+          if (node.name === "plain") {
+            Object.assign(state, plain())
+          } else if (node.name === "b" || node.name === "i") {
+            state[node.name === "b" ? "bold" : "italic"] = param !== 0
+          } else if (node.name === "f") {
+            state.font = fontName(param ?? 0)
+          } else if (node.name === "fs") {
+            state.size = param ?? 24
+          } else if (node.name === "cf") {
+            state.color = param ? colorValue(param) : "auto"
+          } else if (node.name === "uc") {
+            unicodeSkip = param ?? 1
+          } else if (node.name === "u" && param !== null) {
+            emit(String.fromCharCode(param < 0 ? param + 0x10000 : param), state)
+            skip = unicodeSkip
+          } else if (node.name in SPECIAL_CHARACTERS) {
+            skip = 0
+            emit(SPECIAL_CHARACTERS[node.name], state)
+          }
+        }
+      }
+    }
+  }
+  walk(tree, plain())
+  return runs
+}
+
+describe("optimizeRTF", () => {
+  const original = renderSample()
+  const expected = interpret(original)
+
+  it("interprets the rendered sample with its formatting", () => {
+    const text = expected.map((run) => run.text).join("")
+    expect(text).toContain("Guide \u00e9t\u00e9")
+    expect(text).toContain("\u4e2d\u6587")
+    expect(text).toContain("\u{1f600}")
+    expect(expected).toContainEqual(expect.objectContaining({ text: "strong", bold: true, italic: false }))
+    expect(expected).toContainEqual(expect.objectContaining({ text: "emphasis", bold: false, italic: true }))
+    expect(new Set(expected.map((run) => run.font)).size).toBeGreaterThan(1)
+    expect(new Set(expected.map((run) => run.color)).size).toBeGreaterThan(1)
+  })
+
+  for (const pass of Object.keys(OPTIMIZATION_PASSES) as OptimizationPass[]) {
+    it(`keeps the text and formatting with the ${pass} pass`, () => {
+      const { optimized } = optimizeRTF(original, [pass])
+      expect(interpret(optimized)).toEqual(expected)
+    })
+
+    it(`keeps the text and formatting of hand-written RTF with the ${pass} pass`, () => {
+      const { optimized, report } = optimizeRTF(HAND_WRITTEN, [pass])
+      expect(report.optimizedSize).toBeLessThan(report.originalSize)
+      expect(interpret(optimized)).toEqual(interpret(HAND_WRITTEN))
+    })
+  }
+
+  for (const preset of Object.keys(OPTIMIZATION_PRESETS) as OptimizationPreset[]) {
+    it(`keeps the text and formatting with the ${preset} preset`, () => {
+      const { optimized, report } = optimizeRTF(original, OPTIMIZATION_PRESETS[preset])
+      if (preset !== "none") {
+        expect(report.optimizedSize).toBeLessThan(report.originalSize)
+      }
+      expect(interpret(optimized)).toEqual(expected)
+    })
+  }
+})
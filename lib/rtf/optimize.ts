@@ -0,0 +1,417 @@
+import { RtfSyntaxError, parseRTF, serializeRTF, type RtfControlWord, type RtfGroup, type RtfNode } from "./syntax"
+
+// Shrinks generated RTF without changing what readers display. The document is parsed into its
+// group tree, and each pass rewrites the tree only where the result is known to be equivalent.
+// Tables, pictures and other destinations are left alone except where a pass says otherwise.
+
+export type OptimizationPass = "whitespace" | "formatting" | "fonts" | "groups"
+
+// In the order the passes run
+export const OPTIMIZATION_PASSES: Record<OptimizationPass, { label: string; description: string }> = {
+  whitespace: {
+    label: "Whitespace",
+    description: "Drops line breaks and the spaces after control words that don't need them",
+  },
+  formatting: {
+    label: "Redundant formatting",
+    description: "Drops formatting that is overridden or already in effect, and groups left empty",
+  },
+  fonts: {
+    label: "Font table pruning",
+    description: "Removes fonts no text uses from the font table and the styles that name them",
+  },
+  groups: {
+    label: "Group flattening",
+    description: "Unwraps groups whose formatting would end right after them anyway",
+  },
+}
+
+export type OptimizationPreset = "none" | "safe" | "aggressive"
+
+// "safe" only touches the text flow; "aggressive" also edits the font table and styles, which
+// changes what a word processor offers when the document is edited further
+export const OPTIMIZATION_PRESETS: Record<OptimizationPreset, OptimizationPass[]> = {
+  none: [],
+  safe: ["whitespace", "formatting"],
+  aggressive: ["whitespace", "formatting", "fonts", "groups"],
+}
+
+export interface OptimizationReport {
+  originalSize: number
+  optimizedSize: number
+  // Bytes saved by each pass that ran, in order
+  passes: { pass: OptimizationPass; saved: number }[]
+}
+
+// Character formatting words and the property each one sets. Toggles are off with a 0 parameter.
+const TOGGLES = new Set(["b", "i", "strike", "striked", "caps", "scaps", "outl", "shad", "v", "embo", "impr"])
+const VALUED = new Set(["f", "fs", "cf", "cb", "highlight", "lang", "expnd", "expndtw", "kerning", "up", "dn"])
+const UNDERLINES = new Set(["ul", "ulnone", "uld", "uldash", "uldb", "ulth", "ulw", "ulwave", "ulhwave", "ululdbwave"])
+const POSITIONS = new Set(["super", "sub", "nosupersub"])
+
+// Words that reset character formatting to values this optimizer doesn't know
+const RESETS = new Set(["plain", "s", "cs", "ds", "ts"])
+
+// Words that insert a character, formatted like text, without changing the formatting
+const CONTENT = new Set([
+  "u",
+  "tab",
+  "line",
+  "bullet",
+  "emdash",
+  "endash",
+  "emspace",
+  "enspace",
+  "qmspace",
+  "lquote",
+  "rquote",
+  "ldblquote",
+  "rdblquote",
+  "zwj",
+  "zwnj",
+])
+
+// Destinations whose contents flow as text; they are optimized starting from unknown formatting, since
+// readers don't all carry the surrounding formatting into them. Other destinations are left alone.
+const TEXT_DESTINATIONS = new Set([
+  "field",
+  "fldrslt",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+  "footnote",
+])
+const DESTINATIONS = new Set([
+  "rtf",
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "info",
+  "pict",
+  "object",
+  "listtable",
+  "listoverridetable",
+  "fldinst",
+  "bkmkstart",
+  "bkmkend",
+  "shppict",
+  "nonshppict",
+  "xe",
+  "tc",
+  "txe",
+  // Fallback list markers for readers without list support
+  "listtext",
+  "pntext",
+  ...TEXT_DESTINATIONS,
+])
+
+// Known values of character properties at a point in the document
+type FormattingState = Map<string, string>
+
+// The property a character formatting word sets and the value it sets it to, or null for other words
+function characterProperty(word: RtfControlWord): [string, string] | null {
+  if (TOGGLES.has(word.name)) {
+    return [word.name, word.param === 0 ? "0" : "1"]
+  }
+  if (VALUED.has(word.name)) {
+    return [word.name, String(word.param)]
+  }
+  if (UNDERLINES.has(word.name)) {
+    return ["ul", word.name === "ulnone" || word.param === 0 ? "none" : word.name]
+  }
+  if (POSITIONS.has(word.name)) {
+    return ["position", word.name]
+  }
+  return null
+}
+
+function isFormatting(node: RtfNode): node is RtfControlWord {
+  return node.type === "word" && (characterProperty(node) !== null || node.name === "plain")
+}
+
+// Text, or a word or symbol that stands for a character; \* and \binN don't count
+function isContent(node: RtfNode): boolean {
+  switch (node.type) {
+    case "text":
+      return true
+    case "symbol":
+      return node.symbol !== "*"
+    case "word":
+      return CONTENT.has(node.name)
+    default:
+      return false
+  }
+}
+
+// The destination a group starts, or null for an ordinary group
+function destination(group: RtfGroup): string | null {
+  const [first, second] = group.children
+  if (first?.type === "symbol" && first.symbol === "*") {
+    return second?.type === "word" ? second.name : "*"
+  }
+  return first?.type === "word" && DESTINATIONS.has(first.name) ? first.name : null
+}
+
+function sameWord(a: RtfNode, b: RtfNode): boolean {
+  return a.type === "word" && b.type === "word" && a.name === b.name && a.param === b.param
+}
+
+// Drops formatting words whose effect never reaches any text: those followed, before the next
+// non-formatting token, by another word setting the same property or by \plain, and those at the
+// end of an ordinary group, which ends their effect. A word right after \u is kept, as it may stand
+// in the place of the Unicode character's fallback.
+function dropOverriddenFormatting(nodes: RtfNode[], groupEnds: boolean): RtfNode[] {
+  const dropped = new Set<number>()
+  let runStart = 0
+  const closeRun = (end: number, ended: boolean) => {
+    const seen = new Set<string>()
+    let reset = ended
+    for (let i = end - 1; i >= runStart; i--) {
+      const word = nodes[i] as RtfControlWord
+      const property = characterProperty(word)
+      if (reset || (property && seen.has(property[0]))) {
+        dropped.add(i)
+      } else if (property) {
+        seen.add(property[0])
+      } else {
+        reset = true
+      }
+    }
+  }
+
+  for (let i = 0; i <= nodes.length; i++) {
+    const node = nodes[i]
+    const previous = nodes[i - 1]
+    const protectedWord = previous?.type === "word" && previous.name === "u"
+    if (node && isFormatting(node) && !protectedWord) {
+      continue
+    }
+    // \plain itself is only dropped at the end of a group
+    closeRun(i, !node && groupEnds)
+    runStart = i + 1
+  }
+  return nodes.filter((_, i) => !dropped.has(i))
+}
+
+// Whether a node is a formatting word setting a property to the value it already has. Otherwise
+// records what the node changes in the known state.
+function isRedundant(node: RtfNode, previous: RtfNode | undefined, state: FormattingState): boolean {
+  if (node.type !== "word") {
+    return false
+  }
+  if (RESETS.has(node.name)) {
+    state.clear()
+    return false
+  }
+  const property = characterProperty(node)
+  if (!property) {
+    return false
+  }
+  if (state.get(property[0]) === property[1] && !(previous?.type === "word" && previous.name === "u")) {
+    return true
+  }
+  state.set(property[0], property[1])
+  return false
+}
+
+// Leading formatting words of a group that otherwise holds only content, or null for other groups
+function textRunFormatting(group: RtfGroup): RtfNode[] | null {
+  if (destination(group) !== null) {
+    return null
+  }
+  let start = 0
+  while (start < group.children.length && isFormatting(group.children[start])) {
+    start++
+  }
+  const rest = group.children.slice(start)
+  return rest.length > 0 && rest.every(isContent) ? group.children.slice(0, start) : null
+}
+
+// Merges adjacent groups such as {\b one}{\b two} into {\b onetwo}. Both start from the same state
+// and change nothing after their leading formatting, so the text in each gets the same formatting.
+function mergeTextRuns(nodes: RtfNode[]): RtfNode[] {
+  const merged: RtfNode[] = []
+  for (const node of nodes) {
+    const previous = merged[merged.length - 1]
+    if (node.type === "group" && previous?.type === "group") {
+      const formatting = textRunFormatting(node)
+      const previousFormatting = textRunFormatting(previous)
+      if (
+        formatting &&
+        previousFormatting &&
+        formatting.length === previousFormatting.length &&
+        formatting.every((word, i) => sameWord(word, previousFormatting[i]))
+      ) {
+        merged[merged.length - 1] = {
+          type: "group",
+          children: joinText([...previous.children, ...node.children.slice(formatting.length)]),
+        }
+        continue
+      }
+    }
+    merged.push(node)
+  }
+  return merged
+}
+
+// Joins text nodes that became adjacent
+function joinText(nodes: RtfNode[]): RtfNode[] {
+  const joined: RtfNode[] = []
+  for (const node of nodes) {
+    const last = joined[joined.length - 1]
+    if (node.type === "text" && last?.type === "text") {
+      joined[joined.length - 1] = { type: "text", value: last.value + node.value }
+    } else {
+      joined.push(node)
+    }
+  }
+  return joined
+}
+
+// A group with nothing in it, or only character formatting that ends with it, has no effect
+function isEmptyGroup(node: RtfNode): boolean {
+  return node.type === "group" && node.children.every(isFormatting)
+}
+
+// Drops redundant formatting from the contents of a group that starts with the given known formatting.
+// Nested groups inherit a copy of the state at their start; what they change is undone when they end.
+function optimizeFormatting(nodes: RtfNode[], state: FormattingState, groupEnds: boolean): RtfNode[] {
+  const optimized: RtfNode[] = []
+  for (const node of dropOverriddenFormatting(nodes, groupEnds)) {
+    if (node.type !== "group") {
+      if (!isRedundant(node, optimized[optimized.length - 1], state)) {
+        optimized.push(node)
+      }
+      continue
+    }
+    const name = destination(node)
+    if (name === null) {
+      const children = optimizeFormatting(node.children, new Map(state), true)
+      optimized.push({ type: "group", children })
+    } else if (name === "rtf" || TEXT_DESTINATIONS.has(name)) {
+      optimized.push({ type: "group", children: optimizeFormatting(node.children, new Map(), name !== "rtf") })
+    } else {
+      optimized.push(node)
+    }
+  }
+  return joinText(mergeTextRuns(optimized.filter((node) => !isEmptyGroup(node))))
+}
+
+// Clears the spaces after control words; the writer puts back the ones that are needed
+function removeDelimiters(nodes: RtfNode[]): RtfNode[] {
+  return nodes.map((node) => {
+    if (node.type === "word") {
+      return { ...node, space: false }
+    }
+    return node.type === "group" ? { type: "group", children: removeDelimiters(node.children) } : node
+  })
+}
+
+// Font numbers selected anywhere outside the font table and stylesheet, and the default font
+function collectUsedFonts(nodes: RtfNode[], used: Set<number>) {
+  for (const node of nodes) {
+    if (node.type === "group") {
+      const name = destination(node)
+      if (name !== "fonttbl" && name !== "stylesheet") {
+        collectUsedFonts(node.children, used)
+      }
+    } else if (node.type === "word" && (node.name === "f" || node.name === "deff") && node.param !== null) {
+      used.add(node.param)
+    }
+  }
+}
+
+// Removes the font table entries for unused fonts, and the \fN of styles that name them so their
+// text falls back to the default font like everything else
+function pruneFonts(nodes: RtfNode[]): RtfNode[] {
+  const used = new Set<number>()
+  collectUsedFonts(nodes, used)
+  const isUnused = (node: RtfNode) => node.type === "word" && node.name === "f" && !used.has(node.param ?? 0)
+
+  const prune = (nodes: RtfNode[], table: string | null): RtfNode[] =>
+    nodes.flatMap((node): RtfNode[] => {
+      if (table === "stylesheet" && isUnused(node)) {
+        return []
+      }
+      if (node.type !== "group") {
+        return [node]
+      }
+      if (table === "fonttbl" && node.children.some(isUnused)) {
+        return []
+      }
+      const name = destination(node)
+      const inside = table ?? (name === "fonttbl" || name === "stylesheet" ? name : null)
+      return [{ type: "group", children: prune(node.children, inside) }]
+    })
+  return prune(nodes, null)
+}
+
+// Unwraps ordinary groups that hold only text, whose scope changes nothing, and groups that end
+// their parent, where the formatting they set would be undone at the same point
+function flattenGroups(nodes: RtfNode[], inGroup: boolean): RtfNode[] {
+  const flattened: RtfNode[] = []
+  nodes.forEach((node, i) => {
+    const name = node.type === "group" ? destination(node) : null
+    if (node.type !== "group" || (name !== null && name !== "rtf" && !TEXT_DESTINATIONS.has(name))) {
+      flattened.push(node)
+      return
+    }
+    const children = flattenGroups(node.children, true)
+    const previous = flattened[flattened.length - 1]
+    // The group's first token would be taken as the fallback of a preceding \u
+    const afterUnicode = previous?.type === "word" && previous.name === "u"
+    const endsParent = inGroup && i === nodes.length - 1
+    if (name === null && !afterUnicode && (endsParent || children.every(isContent))) {
+      flattened.push(...children)
+    } else {
+      flattened.push({ type: "group", children })
+    }
+  })
+  return joinText(flattened)
+}
+
+const PASSES: Record<OptimizationPass, (nodes: RtfNode[]) => RtfNode[]> = {
+  whitespace: removeDelimiters,
+  formatting: (nodes) => optimizeFormatting(nodes, new Map(), false),
+  fonts: pruneFonts,
+  groups: (nodes) => flattenGroups(nodes, false),
+}
+
+// Runs the given passes in their fixed order and reports what each saved. Input that isn't
+// well-formed RTF is returned unchanged. Sizes are in characters, which are bytes in RTF.
+export function optimizeRTF(
+  rtf: string,
+  passes: OptimizationPass[] = OPTIMIZATION_PRESETS.safe,
+): { optimized: string; report: OptimizationReport } {
+  const unchanged = { optimized: rtf, report: { originalSize: rtf.length, optimizedSize: rtf.length, passes: [] } }
+  if (passes.length === 0) {
+    return unchanged
+  }
+  let nodes: RtfNode[]
+  try {
+    nodes = parseRTF(rtf)
+  } catch (error) {
+    if (error instanceof RtfSyntaxError) {
+      return unchanged
+    }
+    throw error
+  }
+
+  // Line breaks are gone once parsed; they count towards the first pass, whitespace in every preset
+  const report: OptimizationReport = { originalSize: rtf.length, optimizedSize: rtf.length, passes: [] }
+  for (const pass of Object.keys(OPTIMIZATION_PASSES) as OptimizationPass[]) {
+    if (!passes.includes(pass)) {
+      continue
+    }
+    nodes = PASSES[pass](nodes)
+    const size = serializeRTF(nodes).length
+    report.passes.push({ pass, saved: report.optimizedSize - size })
+    report.optimizedSize = size
+  }
+  return { optimized: serializeRTF(nodes), report }
+}
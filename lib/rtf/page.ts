@@ -0,0 +1,105 @@
+import { escapeRTF } from "./encode"
+import { field } from "./links"
+import { NORMAL_STYLE } from "./styles"
+
+export type PaperSize = "letter" | "a4" | "legal" | "custom"
+export type Orientation = "portrait" | "landscape"
+
+// Sizes are in twips, portrait
+export const PAPER_SIZES: Record<Exclude<PaperSize, "custom">, { label: string; width: number; height: number }> = {
+  letter: { label: "Letter (8.5 \u00d7 11 in)", width: 12240, height: 15840 },
+  a4: { label: "A4 (210 \u00d7 297 mm)", width: 11906, height: 16838 },
+  legal: { label: "Legal (8.5 \u00d7 14 in)", width: 12240, height: 20160 },
+}
+
+export interface PageMargins {
+  top: number
+  right: number
+  bottom: number
+  left: number
+}
+
+export interface PageSetup {
+  paper: PaperSize
+  // Portrait size of custom paper in twips; the preset sizes ignore these
+  width: number
+  height: number
+  orientation: Orientation
+  margins: PageMargins
+  // Text repeated on every page but the cover; {page}, {pages}, {title}, {filename} and {date}
+  // are replaced, and an empty template leaves the header or footer off
+  header: string
+  footer: string
+}
+
+// US Letter with the RTF default margins of 1.25" left and right and 1" top and bottom
+export const DEFAULT_PAGE_SETUP: PageSetup = {
+  paper: "letter",
+  width: 12240,
+  height: 15840,
+  orientation: "portrait",
+  margins: { top: 1440, right: 1800, bottom: 1440, left: 1800 },
+  header: "",
+  footer: "Page {page} of {pages}",
+}
+
+// Values of the text variables in header and footer templates
+export interface PageVariables {
+  title: string
+  filename: string
+  date: string
+}
+
+// Page width and height in twips, as oriented
+export function paperDimensions(setup: PageSetup): { width: number; height: number } {
+  const { width, height } = setup.paper === "custom" ? setup : PAPER_SIZES[setup.paper]
+  const portrait = { width: Math.min(width, height), height: Math.max(width, height) }
+  return setup.orientation === "landscape" ? { width: portrait.height, height: portrait.width } : portrait
+}
+
+// Width of the text area in twips; kept to at least half an inch when the margins leave less
+export function textWidth(setup: PageSetup): number {
+  return Math.max(720, paperDimensions(setup).width - setup.margins.left - setup.margins.right)
+}
+
+// Replaces the variables in a header or footer template. Page numbers are fields, so each page shows
+// its own; the results written here are what readers without field support display.
+function renderTemplate(template: string, variables: PageVariables): string {
+  const values: Record<string, string> = {
+    page: field("PAGE", "1"),
+    pages: field("NUMPAGES", "1"),
+    title: escapeRTF(variables.title),
+    filename: escapeRTF(variables.filename),
+    date: escapeRTF(variables.date),
+  }
+  return template
+    .split(/(\{\w+\})/)
+    .map((part) => values[part.slice(1, -1)] ?? escapeRTF(part))
+    .join("")
+}
+
+function headerFooter(kind: "header" | "footer", template: string, variables: PageVariables): string {
+  if (!template.trim()) {
+    return ""
+  }
+  return `{\\${kind}\\pard\\s${NORMAL_STYLE}\\qc\\fs20 ${renderTemplate(template.trim(), variables)}\\par}`
+}
+
+// Paper size, margins, and the header and footer, written between the document header and the body.
+// The document opens with its cover page, which \titlepg keeps free of the header and footer.
+export function renderPageSetup(setup: PageSetup, variables: PageVariables): string {
+  const { width, height } = paperDimensions(setup)
+  const { top, right, bottom, left } = setup.margins
+  let rtf = `\\paperw${width}\\paperh${height}\\margl${left}\\margr${right}\\margt${top}\\margb${bottom}`
+  if (setup.orientation === "landscape") {
+    rtf += "\\landscape"
+  }
+  // The section repeats the page size, which is what Word and LibreOffice lay the pages out by
+  rtf += `\\sectd\\pgwsxn${width}\\pghsxn${height}`
+  rtf += `\\marglsxn${left}\\margrsxn${right}\\margtsxn${top}\\margbsxn${bottom}`
+  if (setup.orientation === "landscape") {
+    rtf += "\\lndscpsxn"
+  }
+  rtf += "\\titlepg"
+  return rtf + headerFooter("header", setup.header, variables) + headerFooter("footer", setup.footer, variables)
+}
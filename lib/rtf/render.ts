@@ -0,0 +1,251 @@
+import { DEFAULT_CODE_THEME, type CodeThemeName } from "@/lib/highlight/themes"
+import { isExternalUrl, resolveUrlPath } from "@/lib/archive/paths"
+import type { Admonition, BlockNode, Document, Image, InlineNode, Link, List } from "@/lib/markdown/ast"
+import { inlineText } from "@/lib/markdown/ast"
+import { DEFAULT_MARKDOWN_EXTENSIONS } from "@/lib/markdown/files"
+import { admonitionStyle, defaultAdmonitionTitle } from "./admonitions"
+import { renderCodeBlock, renderCodeSpan } from "./code"
+import type { RtfDocument } from "./document"
+import { escapeRTF } from "./encode"
+import { renderPicture } from "./images"
+import { renderBookmark, renderHyperlink, renderInternalLink } from "./links"
+import { MAX_LIST_LEVEL, listMarkerText } from "./lists"
+import { CODE_STYLE, FILE_TITLE_FORMAT, NORMAL_STYLE, QUOTE_STYLE, headingFormat } from "./styles"
+import { DEFAULT_TABLE_OPTIONS, renderTable, type TableOptions } from "./table"
+
+const INDENT_STEP = 360
+const QUOTE_BORDER_COLOR = "#d0d7de"
+const RULE_COLOR = "#a0a0a0"
+
+export interface RenderOptions {
+  // Width of the text area in twips (page width minus margins)
+  textWidth: number
+  table: TableOptions
+  // Syntax highlighting theme for fenced code blocks; null renders all code plain
+  codeTheme: CodeThemeName | null
+  // Print the target of each link in parentheses after its text, for output read on paper
+  appendLinkUrls: boolean
+  // Shown after the text of links to markdown files that aren't in the combined document; empty
+  // leaves just the text
+  missingLinkNote: string
+  // Extensions of the files converted as markdown; relative links to such files jump within the document
+  markdownExtensions: string[]
+}
+
+// US Letter with the RTF default margins of 1.25"
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+  textWidth: 8640,
+  table: DEFAULT_TABLE_OPTIONS,
+  codeTheme: DEFAULT_CODE_THEME,
+  appendLinkUrls: false,
+  missingLinkNote: "",
+  markdownExtensions: DEFAULT_MARKDOWN_EXTENSIONS,
+}
+
+// A markdown file to convert; path is its location in the archive, which relative links are
+// resolved against, and source the directory of the source it came from, which links can't leave
+export interface SourceFile {
+  name: string
+  path: string
+  source: string
+  tree: Document
+}
+
+interface RenderContext {
+  // Left indent in twips for paragraphs rendered in this context
+  indent: number
+  // Number of lists enclosing this context
+  listDepth: number
+  // Paragraph style for body text in this context
+  style: number
+  // Border and shading control words from the enclosing block quote or admonition
+  border: string
+  shading: string
+  options: RenderOptions
+  document: RtfDocument
+  path: string
+  source: string
+}
+
+function renderLink(link: Link, context: RenderContext): string {
+  const content = renderInlines(link.children, context)
+  const { document, options } = context
+  const target = document.bookmarks.resolve(context.path, link.url, context.source, options.markdownExtensions)
+  switch (target.type) {
+    case "bookmark":
+      return renderInternalLink(target.name, content, document)
+    case "missing":
+      return options.missingLinkNote ? `${content} {\\i (${escapeRTF(options.missingLinkNote)})}` : content
+    case "external":
+      return renderHyperlink(link.url, content, inlineText(link.children), options.appendLinkUrls, document)
+  }
+}
+
+// Embeds an image from the archive; remote and missing images fall back to their alt text
+function renderImage(image: Image, context: RenderContext): string {
+  const alt = escapeRTF(inlineText(image.children))
+  if (isExternalUrl(image.url)) {
+    return alt
+  }
+  const { images, warnings } = context.document
+  const path = resolveUrlPath(context.path, image.url, context.source)
+  const embedded = images.get(path)
+  if (!embedded) {
+    warnings.add(`${context.path}: image "${image.url}" ${images.failure(path) ?? "was not found in the archive"}`)
+    return alt
+  }
+  return renderPicture(embedded, context.options.textWidth - context.indent)
+}
+
+function renderInlines(nodes: InlineNode[], context: RenderContext): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+        case "html_inline":
+          return escapeRTF(node.value)
+        case "strong":
+          return `{\\b ${renderInlines(node.children, context)}}`
+        case "emphasis":
+          return `{\\i ${renderInlines(node.children, context)}}`
+        case "code_span":
+          return renderCodeSpan(node.value, context.document)
+        case "link":
+          return renderLink(node, context)
+        case "image":
+          return renderImage(node, context)
+        case "soft_break":
+          return " "
+        case "hard_break":
+          return "\\line "
+      }
+    })
+    .join("")
+}
+
+// Starts a paragraph in the given style (the context's body style by default) with the context's
+// indent, border and shading
+function pard(context: RenderContext, style = `\\s${context.style}`): string {
+  const indent = context.indent ? `\\li${context.indent}` : ""
+  return `\\pard${style}${indent}${context.border}${context.shading}`
+}
+
+function paragraph(content: string, context: RenderContext, spaceAfter = true, style?: string): string {
+  return `${pard(context, style)} ${content}\\par${spaceAfter ? "\\par" : ""}`
+}
+
+function renderList(list: List, context: RenderContext): string {
+  const listId = context.document.lists.add(list)
+  const level = Math.min(context.listDepth, MAX_LIST_LEVEL)
+  const itemContext = { ...context, indent: context.indent + INDENT_STEP, listDepth: context.listDepth + 1 }
+  const indent = itemContext.indent
+  // Loose lists keep a blank line's worth of space after each item
+  const spacing = list.tight ? "\\sa0" : "\\sa240"
+
+  return list.children
+    .map((item, index) => {
+      // The marker hangs into the indent in front of the item's first paragraph
+      const itemParagraph =
+        `${pard(itemContext)}\\fi-${INDENT_STEP}\\tx${indent}\\ls${listId}\\ilvl${level}${spacing} ` +
+        `{\\listtext ${listMarkerText(list, index)}\\tab}`
+      const [first, ...rest] = item.children
+      if (first?.type === "paragraph") {
+        const content = renderInlines(first.children, itemContext)
+        return `${itemParagraph}${content}\\par${renderBlocks(rest, itemContext, list.tight)}`
+      }
+      return `${itemParagraph}\\par${renderBlocks(item.children, itemContext, list.tight)}`
+    })
+    .join("")
+}
+
+// Renders an admonition as a shaded box with a colored bar and title
+function renderAdmonition(admonition: Admonition, context: RenderContext): string {
+  const { colors } = context.document
+  const style = admonitionStyle(admonition.kind)
+  const color = colors.index(style.color)
+  const boxContext = {
+    ...context,
+    border: `\\brdrl\\brdrs\\brdrw30\\brsp160\\brdrcf${color}`,
+    shading: `\\cbpat${colors.index(style.background)}`,
+  }
+  const title = admonition.title ?? defaultAdmonitionTitle(admonition.kind)
+  const heading = title ? paragraph(`{\\b\\cf${color} ${escapeRTF(title)}}`, boxContext, false) : ""
+  // The empty paragraph after the box is in the surrounding style, without the box's border and shading
+  return heading + renderBlocks(admonition.children, boxContext) + `\\pard\\s${context.style}\\par`
+}
+
+function renderBlocks(blocks: BlockNode[], context: RenderContext, tight = false): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading": {
+          const format = headingFormat(block.level)
+          const content = `{${format.character} ${renderInlines(block.children, context)}}`
+          const bookmark = context.document.bookmarks.headingBookmark(block)
+          return paragraph(bookmark ? renderBookmark(bookmark, content) : content, context, true, format.paragraph)
+        }
+        case "paragraph":
+          return paragraph(renderInlines(block.children, context), context, !tight)
+        case "blockquote": {
+          // A bar on the left; nested quotes draw their own bar further in
+          const color = context.document.colors.index(QUOTE_BORDER_COLOR)
+          const border = `\\brdrl\\brdrs\\brdrw30\\brsp160\\brdrcf${color}`
+          const quoteContext = { ...context, indent: context.indent + INDENT_STEP * 2, style: QUOTE_STYLE, border }
+          return renderBlocks(block.children, quoteContext)
+        }
+        case "admonition":
+          return renderAdmonition(block, context)
+        case "list":
+          return renderList(block, context) + (tight ? "" : `${pard(context)}\\par`)
+        case "code_block":
+          return renderCodeBlock(
+            block.value,
+            block.info,
+            pard(context, `\\s${CODE_STYLE}`),
+            context.options.codeTheme,
+            context.document,
+          )
+        case "html_block":
+          return paragraph(block.value.split("\n").map(escapeRTF).join("\\line "), context)
+        case "thematic_break": {
+          // An empty paragraph with a bottom border, followed by the usual blank line
+          const color = context.document.colors.index(RULE_COLOR)
+          return `${pard(context)}\\brdrb\\brdrs\\brdrw10\\brsp20\\brdrcf${color}\\par${pard(context)}\\par`
+        }
+        case "table": {
+          const { indent, options } = context
+          const rows = renderTable(block, indent, options.textWidth - indent, options.table, (cell) =>
+            renderInlines(cell.children, context),
+          )
+          return rows + (tight ? "" : `${pard(context)}\\par`)
+        }
+      }
+    })
+    .join("")
+}
+
+// Converts a markdown file into an RTF fragment for embedding in the combined document. Files
+// must be registered with document.bookmarks first for links between them to resolve.
+export function markdownToRTF(file: SourceFile, document: RtfDocument, options = DEFAULT_RENDER_OPTIONS): string {
+  let rtf = ""
+
+  if (file.name) {
+    const title = `{${FILE_TITLE_FORMAT.character} ${escapeRTF(file.name)}}`
+    const bookmark = document.bookmarks.fileBookmark(file.path)
+    rtf += `\\pard${FILE_TITLE_FORMAT.paragraph} ${bookmark ? renderBookmark(bookmark, title) : title}\\par\\par`
+  }
+
+  rtf += renderBlocks(file.tree.children, {
+    indent: 0,
+    listDepth: 0,
+    style: NORMAL_STYLE,
+    border: "",
+    shading: "",
+    options,
+    document,
+    path: file.path,
+    source: file.source,
+  })
+
+  return rtf + `\\pard\\s${NORMAL_STYLE}\\par\\par`
+}
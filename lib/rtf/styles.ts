@@ -0,0 +1,47 @@
+// Paragraph styles shared by the whole document. Paragraphs reference a style with \sN and repeat
+// its formatting, since RTF readers apply the explicit formatting rather than looking it up.
+
+export const NORMAL_STYLE = 0
+export const CODE_STYLE = 7
+export const QUOTE_STYLE = 8
+// The name of each converted file, which heads its section of the combined document
+export const FILE_TITLE_STYLE = 9
+export const FILE_TITLE_STYLE_NAME = "File Title"
+
+export const FILE_TITLE_FORMAT = { paragraph: `\\s${FILE_TITLE_STYLE}\\keepn`, character: "\\b\\fs28" }
+
+// Font sizes in half-points, indexed by heading level
+const HEADING_SIZES = [0, 24, 20, 18, 18, 18, 18]
+
+// Formatting of a heading: its paragraph style (headings 1-6 are styles 1-6) with the 0-based
+// outline level that Word's navigation pane and outline view go by, and the bold run size
+export function headingFormat(level: number): { paragraph: string; character: string } {
+  return {
+    paragraph: `\\s${level}\\outlinelevel${level - 1}\\keepn`,
+    character: `\\b\\fs${HEADING_SIZES[level]}`,
+  }
+}
+
+// "heading N" is the name Word maps to its built-in Heading N styles
+export function headingStyleName(level: number): string {
+  return `heading ${level}`
+}
+
+function headingDefinitions(): string {
+  let definitions = ""
+  for (let level = 1; level <= 6; level++) {
+    const { paragraph, character } = headingFormat(level)
+    definitions += `{${paragraph}\\sbasedon${NORMAL_STYLE}\\snext${NORMAL_STYLE}${character} ${headingStyleName(level)};}`
+  }
+  return definitions
+}
+
+export const STYLESHEET =
+  "{\\stylesheet" +
+  `{\\s${NORMAL_STYLE}\\f0\\fs24 Normal;}` +
+  headingDefinitions() +
+  `{\\s${CODE_STYLE}\\sbasedon${NORMAL_STYLE}\\snext${NORMAL_STYLE}\\f1\\fs16 Code;}` +
+  `{\\s${QUOTE_STYLE}\\sbasedon${NORMAL_STYLE}\\snext${QUOTE_STYLE}\\li720 Quote;}` +
+  `{${FILE_TITLE_FORMAT.paragraph}\\sbasedon${NORMAL_STYLE}\\snext${NORMAL_STYLE}${FILE_TITLE_FORMAT.character} ` +
+  `${FILE_TITLE_STYLE_NAME};}` +
+  "}"
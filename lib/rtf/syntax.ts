@@ -0,0 +1,159 @@
+// Reads RTF into a tree of groups and tokens and writes it back. Line breaks, which readers ignore,
+// are dropped; control words keep the space that delimited them, and get one when written wherever
+// the next character would otherwise run into them.
+
+// Plain text between control words and braces
+export interface RtfText {
+  type: "text"
+  value: string
+}
+
+// \name or \nameN
+export interface RtfControlWord {
+  type: "word"
+  name: string
+  param: number | null
+  // Whether a space followed the word as its delimiter
+  space: boolean
+}
+
+// A backslash followed by a single non-letter, such as \~ or \*; \'hh keeps its two hex digits
+export interface RtfControlSymbol {
+  type: "symbol"
+  symbol: string
+}
+
+// The raw bytes following \binN
+export interface RtfBinary {
+  type: "binary"
+  data: string
+}
+
+export interface RtfGroup {
+  type: "group"
+  children: RtfNode[]
+}
+
+export type RtfNode = RtfText | RtfControlWord | RtfControlSymbol | RtfBinary | RtfGroup
+
+export class RtfSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly offset: number,
+  ) {
+    super(`${message} at offset ${offset}`)
+    this.name = "RtfSyntaxError"
+  }
+}
+
+const reControlWord = /\\([a-zA-Z]{1,32})(-?\d{1,10})? ?/y
+const reText = /[^\\{}\r\n]+/y
+
+function appendText(nodes: RtfNode[], value: string) {
+  const last = nodes[nodes.length - 1]
+  if (last?.type === "text") {
+    last.value += value
+  } else {
+    nodes.push({ type: "text", value })
+  }
+}
+
+// Parses an RTF document into the nodes at its top level, normally a single {\rtf1 ...} group.
+// Throws RtfSyntaxError on unbalanced braces.
+export function parseRTF(source: string): RtfNode[] {
+  const root: RtfNode[] = []
+  const stack: RtfNode[][] = [root]
+  let nodes = root
+  let pos = 0
+
+  while (pos < source.length) {
+    const char = source[pos]
+    if (char === "{") {
+      const group: RtfGroup = { type: "group", children: [] }
+      nodes.push(group)
+      stack.push(group.children)
+      nodes = group.children
+      pos++
+    } else if (char === "}") {
+      if (stack.length === 1) {
+        throw new RtfSyntaxError("Unmatched closing brace", pos)
+      }
+      stack.pop()
+      nodes = stack[stack.length - 1]
+      pos++
+    } else if (char === "\r" || char === "\n") {
+      pos++
+    } else if (char === "\\") {
+      reControlWord.lastIndex = pos
+      const match = reControlWord.exec(source)
+      if (match) {
+        const param = match[2] === undefined ? null : Number(match[2])
+        nodes.push({ type: "word", name: match[1], param, space: match[0].endsWith(" ") })
+        pos = reControlWord.lastIndex
+        if (match[1] === "bin" && param !== null && param > 0) {
+          nodes.push({ type: "binary", data: source.slice(pos, pos + param) })
+          pos += param
+        }
+      } else if (source[pos + 1] === "'") {
+        nodes.push({ type: "symbol", symbol: source.slice(pos + 1, pos + 4) })
+        pos += 4
+      } else if (pos + 1 < source.length) {
+        nodes.push({ type: "symbol", symbol: source[pos + 1] })
+        pos += 2
+      } else {
+        throw new RtfSyntaxError("Backslash at end of input", pos)
+      }
+    } else {
+      reText.lastIndex = pos
+      const match = reText.exec(source) as RegExpExecArray
+      appendText(nodes, match[0])
+      pos = reText.lastIndex
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new RtfSyntaxError("Unclosed group", source.length)
+  }
+  return root
+}
+
+// A control word needs a space after it when what follows would otherwise be read as more of its
+// name or parameter, or when it starts with a space that would be taken as the delimiter
+function needsDelimiter(next: RtfNode | undefined): boolean {
+  if (next?.type === "binary") {
+    return true
+  }
+  return next?.type === "text" && /^[a-zA-Z0-9 -]/.test(next.value)
+}
+
+function serializeNodes(nodes: RtfNode[], parts: string[]) {
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i]
+    switch (node.type) {
+      case "group":
+        parts.push("{")
+        serializeNodes(node.children, parts)
+        parts.push("}")
+        break
+      case "word":
+        parts.push(`\\${node.name}${node.param ?? ""}`)
+        if (node.space || needsDelimiter(nodes[i + 1])) {
+          parts.push(" ")
+        }
+        break
+      case "symbol":
+        parts.push(`\\${node.symbol}`)
+        break
+      case "text":
+      case "binary":
+        parts.push(node.type === "text" ? node.value : node.data)
+        break
+    }
+  }
+}
+
+export function serializeRTF(nodes: RtfNode[]): string {
+  const parts: string[] = []
+  serializeNodes(nodes, parts)
+  return parts.join("")
+}
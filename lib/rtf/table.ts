@@ -0,0 +1,102 @@
+import type { Table, TableAlignment, TableCell } from "@/lib/markdown/ast"
+import { inlineText } from "@/lib/markdown/ast"
+import { NORMAL_STYLE } from "./styles"
+
+export type TableBorders = "all" | "outer" | "horizontal" | "none"
+
+export interface TableOptions {
+  borders: TableBorders
+  // Border width in twips
+  borderWidth: number
+  // Space between cell border and text in twips
+  cellPadding: number
+}
+
+export const DEFAULT_TABLE_OPTIONS: TableOptions = {
+  borders: "all",
+  borderWidth: 10,
+  cellPadding: 108,
+}
+
+// Measured content widths are clamped so a single long cell doesn't starve the other columns
+const MIN_COLUMN_CHARS = 3
+const MAX_COLUMN_CHARS = 40
+
+const ALIGNMENT_CONTROLS: Record<NonNullable<TableAlignment>, string> = {
+  left: "\\ql",
+  center: "\\qc",
+  right: "\\qr",
+}
+
+// Splits the available width between columns in proportion to their longest cell
+function columnWidths(table: Table, availableWidth: number): number[] {
+  const chars = table.align.map((_, column) => {
+    const longest = Math.max(...table.children.map((row) => inlineText(row.children[column].children).length))
+    return Math.min(MAX_COLUMN_CHARS, Math.max(MIN_COLUMN_CHARS, longest))
+  })
+  const total = chars.reduce((sum, n) => sum + n, 0)
+  const widths = chars.map((n) => Math.floor((availableWidth * n) / total))
+  // Give the rounding remainder to the last column so the row spans the full width
+  widths[widths.length - 1] += availableWidth - widths.reduce((sum, w) => sum + w, 0)
+  return widths
+}
+
+function cellBorders(options: TableOptions, row: number, rowCount: number, column: number, columnCount: number): string {
+  const border = `\\brdrs\\brdrw${options.borderWidth}`
+  const sides = { t: false, l: false, b: false, r: false }
+  switch (options.borders) {
+    case "all":
+      sides.t = sides.l = sides.b = sides.r = true
+      break
+    case "outer":
+      sides.t = row === 0
+      sides.b = row === rowCount - 1
+      sides.l = column === 0
+      sides.r = column === columnCount - 1
+      break
+    case "horizontal":
+      sides.t = sides.b = true
+      break
+  }
+  return Object.entries(sides)
+    .filter(([, enabled]) => enabled)
+    .map(([side]) => `\\clbrdr${side}${border}`)
+    .join("")
+}
+
+// Renders a table as native RTF rows. `indent` is the left offset in twips and `availableWidth`
+// the width the table may span; cell content is rendered by the caller's inline renderer.
+export function renderTable(
+  table: Table,
+  indent: number,
+  availableWidth: number,
+  options: TableOptions,
+  renderCell: (cell: TableCell) => string,
+): string {
+  const widths = columnWidths(table, availableWidth)
+  const padding = options.cellPadding
+  const rowCount = table.children.length
+
+  return table.children
+    .map((row, rowIndex) => {
+      let rtf = `\\trowd\\trgaph${padding}\\trleft${indent}`
+      rtf += `\\trpaddl${padding}\\trpaddr${padding}\\trpaddfl3\\trpaddfr3`
+      // Header rows repeat at the top of each page the table spans
+      rtf += row.header ? "\\trhdr" : ""
+
+      let right = indent
+      widths.forEach((width, column) => {
+        right += width
+        rtf += `${cellBorders(options, rowIndex, rowCount, column, widths.length)}\\cellx${right}`
+      })
+
+      row.children.forEach((cell, column) => {
+        const align = ALIGNMENT_CONTROLS[table.align[column] ?? "left"]
+        const content = renderCell(cell)
+        rtf += `\\pard\\s${NORMAL_STYLE}\\intbl${align} ${row.header ? `{\\b ${content}}` : content}\\cell`
+      })
+
+      return rtf + "\\row"
+    })
+    .join("")
+}
@@ -0,0 +1,73 @@
+import { collectHeadings, inlineText } from "@/lib/markdown/ast"
+import type { RtfDocument } from "./document"
+import { escapeRTF } from "./encode"
+import { renderPageReference, renderPlainInternalLink } from "./links"
+import type { SourceFile } from "./render"
+import { FILE_TITLE_STYLE_NAME, NORMAL_STYLE, headingStyleName } from "./styles"
+
+// "field" is a Word TOC field, regenerated when fields are updated; "static" is written out once
+export type TocMode = "none" | "field" | "static"
+
+export interface TocOptions {
+  mode: TocMode
+  // Deepest heading level listed under each file, 1-6
+  depth: number
+}
+
+export const DEFAULT_TOC_OPTIONS: TocOptions = { mode: "none", depth: 3 }
+
+const TOC_INDENT = 360
+
+function entry(text: string, bookmark: string, level: number, textWidth: number): string {
+  const indent = level * TOC_INDENT
+  // Page numbers are right-aligned behind a dot leader
+  const format = `\\pard\\s${NORMAL_STYLE}\\li${indent}\\sa60\\tqr\\tldot\\tx${textWidth}`
+  return `${format} ${renderPlainInternalLink(bookmark, escapeRTF(text))}\\tab ${renderPageReference(bookmark)}\\par`
+}
+
+// Lists every file and its headings, linked to the bookmarks placed on them
+function entries(sources: SourceFile[], depth: number, textWidth: number, document: RtfDocument): string {
+  let rtf = ""
+  for (const source of sources) {
+    const fileBookmark = document.bookmarks.fileBookmark(source.path)
+    if (fileBookmark) {
+      rtf += entry(source.name, fileBookmark, 0, textWidth)
+    }
+    for (const heading of collectHeadings(source.tree.children)) {
+      const bookmark = document.bookmarks.headingBookmark(heading)
+      const text = inlineText(heading.children).trim()
+      if (heading.level <= depth && bookmark && text) {
+        rtf += entry(text, bookmark, heading.level, textWidth)
+      }
+    }
+  }
+  return rtf
+}
+
+// Renders the table of contents for the combined document. Files must be registered with
+// document.bookmarks first. In field mode the pre-rendered entries become the field's result, so
+// the contents show before Word regenerates them; file titles map to level 1 and markdown headings
+// sit below them, since Word's TOC would otherwise only see the heading styles.
+export function renderTableOfContents(
+  sources: SourceFile[],
+  options: TocOptions,
+  textWidth: number,
+  document: RtfDocument,
+): string {
+  if (options.mode === "none") {
+    return ""
+  }
+  const title = `\\pard\\s${NORMAL_STYLE}\\keepn{\\b\\fs28 Contents}\\par\\par`
+  const list = entries(sources, options.depth, textWidth, document)
+  if (options.mode === "static") {
+    return `${title}${list}\\pard\\s${NORMAL_STYLE}\\par`
+  }
+
+  const levels = [`${FILE_TITLE_STYLE_NAME},1`]
+  for (let level = 1; level <= options.depth; level++) {
+    levels.push(`${headingStyleName(level)},${level + 1}`)
+  }
+  // \flddirty asks Word to update the field when the document is opened
+  const instruction = `TOC \\\\h \\\\z \\\\t "${levels.join(",")}"`
+  return `${title}{\\field\\flddirty{\\*\\fldinst ${instruction}}{\\fldrslt ${list}}}\\pard\\s${NORMAL_STYLE}\\par`
+}